@@ -43,6 +43,15 @@ export default [
       'no-undef': 'off',
     },
   },
+  {
+    // Tests are left out of the build, so they have their own tsconfig
+    files: ['**/*.test.ts'],
+    languageOptions: {
+      parserOptions: {
+        project: './tsconfig.test.json',
+      },
+    },
+  },
   {
     ignores: ['dist/**', 'node_modules/**', '*.config.mjs'],
   },
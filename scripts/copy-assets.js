@@ -0,0 +1,26 @@
+/* eslint-disable */
+const fs = require('fs');
+const path = require('path');
+
+// Non-TypeScript folders that must ship next to the compiled code
+const assetDirs = ['views', 'data'];
+
+assetDirs.forEach(dir => {
+  const srcDir = path.join(__dirname, '..', 'src', dir);
+  const destDir = path.join(__dirname, '..', 'dist', dir);
+
+  // Create dest directory if it doesn't exist
+  if (!fs.existsSync(destDir)) {
+    fs.mkdirSync(destDir, { recursive: true });
+  }
+
+  // Copy all files from src/<dir> to dist/<dir>
+  fs.readdirSync(srcDir).forEach(file => {
+    const srcFile = path.join(srcDir, file);
+    const destFile = path.join(destDir, file);
+    fs.copyFileSync(srcFile, destFile);
+    console.log(`Copied ${file} to dist/${dir}/`);
+  });
+});
+
+console.log('✅ Assets copied successfully!');
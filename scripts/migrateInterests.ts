@@ -0,0 +1,42 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Import service and config with relative paths
+import { config } from '../src/config/env';
+import tagService from '../src/services/tag.service';
+
+/**
+ * Load the tag taxonomy and rewrite existing interests and skills
+ * with their canonical tag names
+ * Usage: npm run migrate-interests
+ */
+async function migrateInterests() {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(config.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const tagCount = await tagService.syncDefaultTags();
+    console.log(`🏷️ Synced ${tagCount} tags`);
+
+    const { users, updated } = await tagService.migrateUsers();
+    console.log(`🔄 Normalized ${updated} of ${users} user(s)`);
+
+    // Close connection
+    await mongoose.connection.close();
+    console.log('✅ Database connection closed');
+  } catch (error) {
+    console.error('❌ Error migrating interests:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+if (require.main === module) {
+  migrateInterests();
+}
+
+export default migrateInterests;
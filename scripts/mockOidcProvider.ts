@@ -0,0 +1,83 @@
+import express from 'express';
+import crypto from 'crypto';
+
+/**
+ * Minimal OpenID Connect provider for local development and testing.
+ * Every authorization request is approved immediately for a fixed test user.
+ * Usage: npm run mock-oidc   (listens on MOCK_OIDC_PORT, default 5055)
+ */
+const port = parseInt(process.env.MOCK_OIDC_PORT || '5055', 10);
+
+// Claims returned from the userinfo endpoint
+const mockUser = {
+  sub: process.env.MOCK_OIDC_SUB || 'mock-user-1',
+  email: process.env.MOCK_OIDC_EMAIL || 'mock.user@example.com',
+  email_verified: true,
+  name: process.env.MOCK_OIDC_NAME || 'Mock User',
+  picture: 'https://example.com/avatars/mock-user.png',
+  job_title: 'Product Designer',
+};
+
+const codes = new Map<string, { clientId: string; redirectUri: string; codeChallenge?: string }>();
+const accessTokens = new Set<string>();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+app.use(express.json());
+
+app.get('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, code_challenge } = req.query as Record<string, string>;
+
+  if (!client_id || !redirect_uri) {
+    res.status(400).json({ error: 'invalid_request' });
+    return;
+  }
+
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, { clientId: client_id, redirectUri: redirect_uri, codeChallenge: code_challenge });
+
+  const redirect = new URL(redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (state) redirect.searchParams.set('state', state);
+
+  res.redirect(redirect.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { code, client_id, redirect_uri, code_verifier } = req.body;
+  const grant = codes.get(code);
+  codes.delete(code);
+
+  if (!grant || grant.clientId !== client_id || grant.redirectUri !== redirect_uri) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+
+  if (grant.codeChallenge) {
+    const challenge = crypto.createHash('sha256').update(String(code_verifier)).digest('base64url');
+    if (challenge !== grant.codeChallenge) {
+      res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      return;
+    }
+  }
+
+  const accessToken = crypto.randomBytes(24).toString('hex');
+  accessTokens.add(accessToken);
+
+  res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 3600 });
+});
+
+app.get('/userinfo', (req, res) => {
+  const token = req.headers.authorization?.replace(/^Bearer /, '');
+
+  if (!token || !accessTokens.has(token)) {
+    res.status(401).json({ error: 'invalid_token' });
+    return;
+  }
+
+  res.json(mockUser);
+});
+
+app.listen(port, () => {
+  console.log(`🧪 Mock OIDC provider running on http://localhost:${port}`);
+});
@@ -0,0 +1,61 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Import models and config with relative paths
+import { config } from '../src/config/env';
+import { User, UserRole, USER_ROLES } from '../src/models/User';
+
+/**
+ * Change a user's role
+ * Usage: npm run promote-user -- <email> [role]   (role defaults to admin)
+ */
+async function promoteUser(email: string, role: UserRole) {
+  try {
+    if (!USER_ROLES.includes(role)) {
+      console.error(`❌ Invalid role "${role}". Use one of: ${USER_ROLES.join(', ')}`);
+      process.exit(1);
+    }
+
+    // Connect to MongoDB
+    await mongoose.connect(config.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const user = await User.findOneAndUpdate(
+      { email: email.toLowerCase() },
+      { role },
+      { new: true }
+    );
+
+    if (!user) {
+      console.error(`❌ No user found with email ${email}`);
+      await mongoose.connection.close();
+      process.exit(1);
+    }
+
+    console.log(`🎉 ${user.email} is now ${user.role}`);
+
+    // Close connection
+    await mongoose.connection.close();
+    console.log('✅ Database connection closed');
+  } catch (error) {
+    console.error('❌ Error promoting user:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+if (require.main === module) {
+  const [email, role = 'admin'] = process.argv.slice(2);
+
+  if (!email) {
+    console.error('Usage: npm run promote-user -- <email> [user|moderator|admin]');
+    process.exit(1);
+  }
+
+  promoteUser(email, role as UserRole);
+}
+
+export default promoteUser;
@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Import service and config with relative paths
+import { config } from '../src/config/env';
+import accountService from '../src/services/account.service';
+
+/**
+ * Permanently delete accounts whose deletion grace period has ended
+ * Usage: npm run purge-deleted-accounts
+ */
+async function purgeDeletedAccounts() {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(config.MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const count = await accountService.purgeExpiredAccounts();
+    console.log(`🗑️ Purged ${count} deleted account(s)`);
+
+    // Close connection
+    await mongoose.connection.close();
+    console.log('✅ Database connection closed');
+  } catch (error) {
+    console.error('❌ Error purging deleted accounts:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+if (require.main === module) {
+  purgeDeletedAccounts();
+}
+
+export default purgeDeletedAccounts;
@@ -7,6 +7,10 @@ dotenv.config();
 // Import models and config with relative paths
 import { config } from '../src/config/env';
 import { User } from '../src/models/User';
+import tagService from '../src/services/tag.service';
+
+// Shared by all sample accounts - must satisfy the password policy
+const SEED_PASSWORD = 'Networking42';
 
 // Sample user profiles with diverse backgrounds from various industries
 const sampleUsers: Array<{
@@ -23,7 +27,7 @@ const sampleUsers: Array<{
   // Technology & Software Development
   {
     email: 'sarah.chen@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Sarah Chen',
     username: 'sarahchen',
     profession: 'Senior Frontend Developer',
@@ -34,7 +38,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'alex.kim@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Alex Kim',
     username: 'alexkim',
     profession: 'Full Stack Developer',
@@ -45,7 +49,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'mike.rodriguez@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Mike Rodriguez',
     username: 'mikerod',
     profession: 'DevOps Engineer',
@@ -56,7 +60,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'priya.patel@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Priya Patel',
     username: 'priyapatel',
     profession: 'Data Scientist',
@@ -67,7 +71,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'lisa.garcia@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Lisa Garcia',
     username: 'lisagarcia',
     profession: 'UI/UX Designer',
@@ -80,7 +84,7 @@ const sampleUsers: Array<{
   // Healthcare & Medicine
   {
     email: 'dr.michael.thompson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Dr. Michael Thompson',
     username: 'drthompson',
     profession: 'Cardiologist',
@@ -91,7 +95,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'dr.sarah.johnson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Dr. Sarah Johnson',
     username: 'drsarah',
     profession: 'Pediatrician',
@@ -102,7 +106,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'nurse.rachel.martinez@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Rachel Martinez',
     username: 'nurserachel',
     profession: 'Registered Nurse',
@@ -113,7 +117,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'dr.james.wilson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Dr. James Wilson',
     username: 'drjames',
     profession: 'Psychiatrist',
@@ -126,7 +130,7 @@ const sampleUsers: Array<{
   // Finance & Business
   {
     email: 'jennifer.lee@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Jennifer Lee',
     username: 'jenlee',
     profession: 'Investment Banker',
@@ -137,7 +141,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'robert.chen@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Robert Chen',
     username: 'robertchen',
     profession: 'Financial Advisor',
@@ -148,7 +152,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'maria.rodriguez@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Maria Rodriguez',
     username: 'mariarod',
     profession: 'Accounting Manager',
@@ -159,7 +163,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'david.kim@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'David Kim',
     username: 'davidkim',
     profession: 'Risk Manager',
@@ -172,7 +176,7 @@ const sampleUsers: Array<{
   // Education & Academia
   {
     email: 'prof.anna.smith@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Prof. Anna Smith',
     username: 'profsmith',
     profession: 'University Professor',
@@ -183,7 +187,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'teacher.john.davis@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'John Davis',
     username: 'teacherjohn',
     profession: 'High School Teacher',
@@ -194,7 +198,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'librarian.emma.brown@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Emma Brown',
     username: 'librarianemma',
     profession: 'Librarian',
@@ -207,7 +211,7 @@ const sampleUsers: Array<{
   // Creative Arts & Media
   {
     email: 'artist.sophia.williams@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Sophia Williams',
     username: 'artistsophia',
     profession: 'Graphic Designer',
@@ -218,7 +222,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'photographer.marcus.jones@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Marcus Jones',
     username: 'marcusjones',
     profession: 'Photographer',
@@ -229,7 +233,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'writer.olivia.taylor@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Olivia Taylor',
     username: 'writerolivia',
     profession: 'Content Writer',
@@ -240,7 +244,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'musician.daniel.garcia@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Daniel Garcia',
     username: 'danielgarcia',
     profession: 'Music Producer',
@@ -253,7 +257,7 @@ const sampleUsers: Array<{
   // Legal & Law
   {
     email: 'attorney.jessica.white@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Jessica White',
     username: 'jessicawhite',
     profession: 'Corporate Attorney',
@@ -264,7 +268,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'lawyer.kevin.moore@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Kevin Moore',
     username: 'kevinmoore',
     profession: 'Criminal Defense Attorney',
@@ -277,7 +281,7 @@ const sampleUsers: Array<{
   // Engineering & Manufacturing
   {
     email: 'engineer.amanda.clark@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Amanda Clark',
     username: 'amandaclark',
     profession: 'Mechanical Engineer',
@@ -288,7 +292,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'engineer.carlos.lopez@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Carlos Lopez',
     username: 'carloslopez',
     profession: 'Civil Engineer',
@@ -299,7 +303,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'engineer.rachel.green@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Rachel Green',
     username: 'rachelgreen',
     profession: 'Environmental Engineer',
@@ -312,7 +316,7 @@ const sampleUsers: Array<{
   // Marketing & Sales
   {
     email: 'marketer.brian.adams@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Brian Adams',
     username: 'brianadams',
     profession: 'Digital Marketing Manager',
@@ -323,7 +327,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'sales.sarah.miller@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Sarah Miller',
     username: 'sarahmiller',
     profession: 'Sales Director',
@@ -336,7 +340,7 @@ const sampleUsers: Array<{
   // Real Estate & Construction
   {
     email: 'realtor.michael.turner@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Michael Turner',
     username: 'michaelturner',
     profession: 'Real Estate Agent',
@@ -347,7 +351,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'contractor.tom.anderson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Tom Anderson',
     username: 'tomanderson',
     profession: 'General Contractor',
@@ -360,7 +364,7 @@ const sampleUsers: Array<{
   // Hospitality & Tourism
   {
     email: 'chef.maria.santos@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Maria Santos',
     username: 'mariasantos',
     profession: 'Executive Chef',
@@ -371,7 +375,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'hotel.james.wilson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'James Wilson',
     username: 'jameswilson',
     profession: 'Hotel Manager',
@@ -384,7 +388,7 @@ const sampleUsers: Array<{
   // Non-Profit & Social Services
   {
     email: 'director.lisa.thompson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Lisa Thompson',
     username: 'lisathompson',
     profession: 'Non-Profit Director',
@@ -395,7 +399,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'counselor.mark.davis@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Mark Davis',
     username: 'markdavis',
     profession: 'Social Worker',
@@ -408,7 +412,7 @@ const sampleUsers: Array<{
   // Agriculture & Food Production
   {
     email: 'farmer.john.martinez@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'John Martinez',
     username: 'johnmartinez',
     profession: 'Organic Farmer',
@@ -421,7 +425,7 @@ const sampleUsers: Array<{
   // Transportation & Logistics
   {
     email: 'pilot.anna.johnson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Anna Johnson',
     username: 'annajohnson',
     profession: 'Commercial Pilot',
@@ -432,7 +436,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'logistics.steve.brown@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Steve Brown',
     username: 'stevebrown',
     profession: 'Supply Chain Manager',
@@ -445,7 +449,7 @@ const sampleUsers: Array<{
   // Sports & Fitness
   {
     email: 'trainer.mike.rodriguez@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Mike Rodriguez',
     username: 'mikerodriguez',
     profession: 'Personal Trainer',
@@ -456,7 +460,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'coach.sarah.williams@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Sarah Williams',
     username: 'sarahwilliams',
     profession: 'Sports Coach',
@@ -469,7 +473,7 @@ const sampleUsers: Array<{
   // Government & Public Service
   {
     email: 'official.david.garcia@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'David Garcia',
     username: 'davidgarcia',
     profession: 'City Planner',
@@ -480,7 +484,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'officer.jennifer.lee@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Jennifer Lee',
     username: 'jenniferlee',
     profession: 'Police Officer',
@@ -493,7 +497,7 @@ const sampleUsers: Array<{
   // Retail & Customer Service
   {
     email: 'manager.kevin.taylor@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Kevin Taylor',
     username: 'kevintaylor',
     profession: 'Retail Manager',
@@ -506,7 +510,7 @@ const sampleUsers: Array<{
   // Consulting & Professional Services
   {
     email: 'consultant.amanda.white@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Amanda White',
     username: 'amandawhite',
     profession: 'Management Consultant',
@@ -519,7 +523,7 @@ const sampleUsers: Array<{
   // Technology Support & IT
   {
     email: 'support.carlos.martinez@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Carlos Martinez',
     username: 'carlosmartinez',
     profession: 'IT Support Specialist',
@@ -532,7 +536,7 @@ const sampleUsers: Array<{
   // Research & Development
   {
     email: 'researcher.rachel.kim@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Rachel Kim',
     username: 'rachelkim',
     profession: 'Research Scientist',
@@ -545,7 +549,7 @@ const sampleUsers: Array<{
   // Entertainment & Media
   {
     email: 'producer.marcus.johnson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Marcus Johnson',
     username: 'marcusjohnson',
     profession: 'Film Producer',
@@ -558,7 +562,7 @@ const sampleUsers: Array<{
   // Architecture & Design
   {
     email: 'architect.olivia.davis@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Olivia Davis',
     username: 'oliviadavis',
     profession: 'Architect',
@@ -571,7 +575,7 @@ const sampleUsers: Array<{
   // Veterinary & Animal Care
   {
     email: 'vet.dr.sophia.wilson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Dr. Sophia Wilson',
     username: 'drsophia',
     profession: 'Veterinarian',
@@ -584,7 +588,7 @@ const sampleUsers: Array<{
   // Human Resources & Talent
   {
     email: 'hr.daniel.brown@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Daniel Brown',
     username: 'danielbrown',
     profession: 'HR Manager',
@@ -597,7 +601,7 @@ const sampleUsers: Array<{
   // Insurance & Risk
   {
     email: 'agent.maria.garcia@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Maria Garcia',
     username: 'mariagarcia',
     profession: 'Insurance Agent',
@@ -610,7 +614,7 @@ const sampleUsers: Array<{
   // Telecommunications
   {
     email: 'tech.james.miller@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'James Miller',
     username: 'jamesmiller',
     profession: 'Telecommunications Engineer',
@@ -623,7 +627,7 @@ const sampleUsers: Array<{
   // Environmental & Sustainability
   {
     email: 'scientist.emma.taylor@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Emma Taylor',
     username: 'emmataylor',
     profession: 'Environmental Scientist',
@@ -636,7 +640,7 @@ const sampleUsers: Array<{
   // Fashion & Beauty
   {
     email: 'designer.sophia.anderson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Sophia Anderson',
     username: 'sophiaanderson',
     profession: 'Fashion Designer',
@@ -649,7 +653,7 @@ const sampleUsers: Array<{
   // Food & Beverage
   {
     email: 'sommelier.marcus.white@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Marcus White',
     username: 'marcuswhite',
     profession: 'Sommelier',
@@ -662,7 +666,7 @@ const sampleUsers: Array<{
   // Mental Health & Wellness
   {
     email: 'therapist.olivia.martinez@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Olivia Martinez',
     username: 'oliviamartinez',
     profession: 'Licensed Therapist',
@@ -675,7 +679,7 @@ const sampleUsers: Array<{
   // Energy & Utilities
   {
     email: 'engineer.daniel.thompson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Daniel Thompson',
     username: 'danielthompson',
     profession: 'Energy Engineer',
@@ -688,7 +692,7 @@ const sampleUsers: Array<{
   // Security & Safety
   {
     email: 'security.maria.johnson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Maria Johnson',
     username: 'mariajohnson',
     profession: 'Security Consultant',
@@ -701,7 +705,7 @@ const sampleUsers: Array<{
   // Transportation & Automotive
   {
     email: 'mechanic.james.davis@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'James Davis',
     username: 'jamesdavis',
     profession: 'Automotive Technician',
@@ -714,7 +718,7 @@ const sampleUsers: Array<{
   // Publishing & Media
   {
     email: 'editor.rachel.wilson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Rachel Wilson',
     username: 'rachelwilson',
     profession: 'Book Editor',
@@ -727,7 +731,7 @@ const sampleUsers: Array<{
   // Event Planning & Management
   {
     email: 'planner.sophia.garcia@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Sophia Garcia',
     username: 'sophiagarcia',
     profession: 'Event Planner',
@@ -740,7 +744,7 @@ const sampleUsers: Array<{
   // Quality Assurance & Testing
   {
     email: 'tester.marcus.lee@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Marcus Lee',
     username: 'marcuslee',
     profession: 'QA Engineer',
@@ -753,7 +757,7 @@ const sampleUsers: Array<{
   // International Relations & Diplomacy
   {
     email: 'diplomat.olivia.brown@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Olivia Brown',
     username: 'oliviabrown',
     profession: 'Foreign Service Officer',
@@ -766,7 +770,7 @@ const sampleUsers: Array<{
   // Interior Design & Home
   {
     email: 'designer.daniel.white@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Daniel White',
     username: 'danielwhite',
     profession: 'Interior Designer',
@@ -779,7 +783,7 @@ const sampleUsers: Array<{
   // Translation & Language Services
   {
     email: 'translator.maria.taylor@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Maria Taylor',
     username: 'mariataylor',
     profession: 'Professional Translator',
@@ -792,7 +796,7 @@ const sampleUsers: Array<{
   // Fitness & Wellness
   {
     email: 'yoga.james.martinez@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'James Martinez',
     username: 'jamesmartinez',
     profession: 'Yoga Instructor',
@@ -805,7 +809,7 @@ const sampleUsers: Array<{
   // Technology & Innovation
   {
     email: 'innovator.rachel.anderson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Rachel Anderson',
     username: 'rachelanderson',
     profession: 'Innovation Manager',
@@ -818,7 +822,7 @@ const sampleUsers: Array<{
   // Additional diverse users to reach 100+
   {
     email: 'nurse.practitioner.sophia.clark@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Sophia Clark',
     username: 'sophiaclark',
     profession: 'Nurse Practitioner',
@@ -829,7 +833,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'pharmacist.marcus.wilson@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Marcus Wilson',
     username: 'marcuswilson',
     profession: 'Pharmacist',
@@ -840,7 +844,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'dietitian.olivia.garcia@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Olivia Garcia',
     username: 'oliviagarcia',
     profession: 'Registered Dietitian',
@@ -851,7 +855,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'physical.therapist.daniel.lee@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Daniel Lee',
     username: 'daniellee',
     profession: 'Physical Therapist',
@@ -862,7 +866,7 @@ const sampleUsers: Array<{
   },
   {
     email: 'occupational.therapist.maria.brown@example.com',
-    password: 'password123',
+    password: SEED_PASSWORD,
     name: 'Maria Brown',
     username: 'mariabrown',
     profession: 'Occupational Therapist',
@@ -885,6 +889,10 @@ async function seedDatabase() {
     await User.deleteMany({});
     console.log('🗑️ Cleared existing users');
 
+    // Load the interest / skill taxonomy
+    const tagCount = await tagService.syncDefaultTags();
+    console.log(`🏷️ Synced ${tagCount} tags`);
+
     // Create users
     const createdUsers: InstanceType<typeof User>[] = [];
     
@@ -893,6 +901,7 @@ async function seedDatabase() {
       // Create user
       const user = new User({
         ...userData,
+        interests: await tagService.normalize(userData.interests),
         password: userData.password, // Use plain password, let the model hash it
         lastActive: new Date(),
         createdAt: new Date(),
@@ -916,7 +925,7 @@ async function seedDatabase() {
       console.log('');
     });
 
-    console.log('🔐 All users have password: password123');
+    console.log(`🔐 All users have password: ${SEED_PASSWORD}`);
     console.log('📧 You can login with any of the emails above');
     
     // Close connection
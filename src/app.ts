@@ -5,7 +5,7 @@ import compression from 'compression';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
 import { readFileSync } from 'fs';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { createServer } from 'http';
 import { config } from '@config/env';
 import connectDB from '@config/database';
@@ -19,6 +19,13 @@ import connectionRoutes from '@routes/connection.routes';
 import messageRoutes from '@routes/message.routes';
 import statsRoutes from '@routes/stats.routes';
 import chatbotRoutes from '@routes/chatbot.routes';
+import adminRoutes from '@routes/admin.routes';
+import profileRoutes from '@routes/profile.routes';
+import endorsementRoutes from '@routes/endorsement.routes';
+import recommendationRoutes from '@routes/recommendation.routes';
+import publicRoutes from '@routes/public.routes';
+import tagRoutes from '@routes/tag.routes';
+import userRoutes from '@routes/user.routes';
 
 // Connect to database (for serverless functions)
 connectDB();
@@ -42,9 +49,9 @@ app.use(
 // Compression middleware
 app.use(compression());
 
-// Body parser middleware
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+// Body parser middleware (files are uploaded as multipart, not in JSON bodies)
+app.use(express.json({ limit: '1mb' }));
+app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 
 // Logging middleware
 if (config.NODE_ENV === 'development') {
@@ -62,7 +69,30 @@ const limiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Stricter limit for endpoints that check credentials or send emails.
+// Not the whole of /api/auth: many users share one IP at events (venue Wi-Fi)
+const AUTH_LIMITED_PATHS = [
+  '/api/auth/login',
+  '/api/auth/2fa/verify',
+  '/api/auth/forgot-password',
+  '/api/auth/reset-password',
+  '/api/auth/magic-link',
+  '/api/auth/account/restore',
+  '/api/auth/verify-email',
+  '/api/auth/resend-verification',
+];
+
+const authLimiter = rateLimit({
+  windowMs: config.AUTH_RATE_LIMIT_WINDOW_MS,
+  max: config.AUTH_RATE_LIMIT_MAX_REQUESTS,
+  message: 'Too many authentication requests from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 app.use('/api', limiter);
+app.use('/u', limiter);
+app.use(AUTH_LIMITED_PATHS, authLimiter);
 
 // Root route - Beautiful status page
 app.get('/', (_req: Request, res: Response) => {
@@ -94,14 +124,39 @@ app.get('/health', (_req: Request, res: Response) => {
   });
 });
 
+// Uploaded files (local storage driver). Keys are versioned, so they can be cached forever.
+if (config.STORAGE_DRIVER === 'local') {
+  app.use(
+    config.UPLOAD_PUBLIC_URL,
+    express.static(resolve(config.UPLOAD_DIR), {
+      maxAge: '365d',
+      immutable: true,
+      index: false,
+      setHeaders: (res) => {
+        // Let the web app on another origin display the images
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      },
+    })
+  );
+}
+
+// Public profile pages (vanity URLs)
+app.use('/u', publicRoutes);
+
 // API Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/profile', profileRoutes);
 app.use('/api/socket', socketRoutes);
 app.use('/api/match-users', matchRoutes);
 app.use('/api/connections', connectionRoutes);
+app.use('/api/endorsements', endorsementRoutes);
+app.use('/api/recommendations', recommendationRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/users', userRoutes);
 app.use('/api/messages', messageRoutes);
 app.use('/api/stats', statsRoutes);
 app.use('/api/chatbot', chatbotRoutes);
+app.use('/api/admin', adminRoutes);
 
 // 404 Handler
 app.use((_req: Request, res: Response) => {
@@ -2,29 +2,207 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+export interface OAuthProviderConfig {
+  id: string;
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  // Extra endpoint listing the user's emails (GitHub only shares them there)
+  emailsUrl?: string;
+  scope: string;
+  redirectUri: string;
+}
+
+// Endpoints of the built-in providers; any of them can be overridden from the environment
+const OAUTH_PROVIDER_DEFAULTS: Record<string, Partial<OAuthProviderConfig>> = {
+  google: {
+    name: 'Google',
+    authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+    scope: 'openid email profile',
+  },
+  github: {
+    name: 'GitHub',
+    authorizationUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    userInfoUrl: 'https://api.github.com/user',
+    emailsUrl: 'https://api.github.com/user/emails',
+    scope: 'read:user user:email',
+  },
+  linkedin: {
+    name: 'LinkedIn',
+    authorizationUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    userInfoUrl: 'https://api.linkedin.com/v2/userinfo',
+    scope: 'openid profile email',
+  },
+};
+
+/**
+ * Read OAuth providers listed in OAUTH_PROVIDERS from OAUTH_<ID>_* variables.
+ * Providers without a client id or endpoints are skipped.
+ */
+const getOAuthProviders = (appUrl: string): OAuthProviderConfig[] => {
+  const ids = (process.env.OAUTH_PROVIDERS || 'google,github,linkedin')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return ids.flatMap((id) => {
+    const prefix = `OAUTH_${id.toUpperCase()}_`;
+    const env = (key: string) => process.env[prefix + key];
+    const defaults = OAUTH_PROVIDER_DEFAULTS[id] || {};
+
+    const provider: OAuthProviderConfig = {
+      id,
+      name: env('NAME') || defaults.name || id,
+      clientId: env('CLIENT_ID') || '',
+      clientSecret: env('CLIENT_SECRET') || '',
+      authorizationUrl: env('AUTHORIZATION_URL') || defaults.authorizationUrl || '',
+      tokenUrl: env('TOKEN_URL') || defaults.tokenUrl || '',
+      userInfoUrl: env('USERINFO_URL') || defaults.userInfoUrl || '',
+      emailsUrl: env('EMAILS_URL') || defaults.emailsUrl,
+      scope: env('SCOPE') || defaults.scope || 'openid email profile',
+      redirectUri: env('REDIRECT_URI') || `${appUrl}/oauth/${id}/callback`,
+    };
+
+    const configured =
+      provider.clientId && provider.authorizationUrl && provider.tokenUrl && provider.userInfoUrl;
+
+    return configured ? [provider] : [];
+  });
+};
+
 interface EnvConfig {
   NODE_ENV: string;
   PORT: number;
   MONGODB_URI: string;
   JWT_SECRET: string;
-  JWT_EXPIRE: string;
+  JWT_ACCESS_EXPIRE: string;
+  REFRESH_TOKEN_EXPIRE_DAYS: number;
   CORS_ORIGIN: string;
   OPENAI_API_KEY: string;
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+  AUTH_RATE_LIMIT_WINDOW_MS: number;
+  AUTH_RATE_LIMIT_MAX_REQUESTS: number;
+  LOGIN_MAX_ACCOUNT_FAILURES: number;
+  LOGIN_MAX_IP_FAILURES: number;
+  LOGIN_FAILURE_WINDOW_MINUTES: number;
+  LOGIN_LOCKOUT_MINUTES: number;
+  APP_URL: string;
+  PUBLIC_URL: string;
+  MAIL_TRANSPORT: string;
+  MAIL_FROM: string;
+  MAIL_FILE_DIR: string;
+  PASSWORD_RESET_EXPIRE_MINUTES: number;
+  EMAIL_VERIFICATION_EXPIRE_MINUTES: number;
+  MAGIC_LINK_EXPIRE_MINUTES: number;
+  EMAIL_CHANGE_EXPIRE_MINUTES: number;
+  PASSWORD_MIN_LENGTH: number;
+  PASSWORD_MAX_LENGTH: number;
+  PASSWORD_REQUIRE_LOWERCASE: boolean;
+  PASSWORD_REQUIRE_UPPERCASE: boolean;
+  PASSWORD_REQUIRE_NUMBER: boolean;
+  PASSWORD_REQUIRE_SYMBOL: boolean;
+  PASSWORD_DISALLOW_PERSONAL_INFO: boolean;
+  PASSWORD_BLOCK_COMMON: boolean;
+  PASSWORD_BLOCKLIST_FILE: string;
+  TOTP_ISSUER: string;
+  TWO_FACTOR_CHALLENGE_EXPIRE: string;
+  ACCOUNT_DELETION_GRACE_DAYS: number;
+  DATA_EXPORT_DIR: string;
+  DATA_EXPORT_EXPIRE_HOURS: number;
+  DATA_EXPORT_TIMEOUT_MINUTES: number;
+  STORAGE_DRIVER: string;
+  UPLOAD_DIR: string;
+  UPLOAD_PUBLIC_URL: string;
+  S3_BUCKET: string;
+  S3_REGION: string;
+  S3_ENDPOINT: string;
+  S3_ACCESS_KEY_ID: string;
+  S3_SECRET_ACCESS_KEY: string;
+  S3_PUBLIC_URL: string;
+  S3_FORCE_PATH_STYLE: boolean;
+  AVATAR_MAX_SIZE_MB: number;
+  AVATAR_SIZES: number[];
+  PROFILE_VIEW_RETENTION_DAYS: number;
+  NEARBY_RADIUS_KM: number;
+  NEARBY_MAX_RADIUS_KM: number;
+  LOCATION_MAX_AGE_MINUTES: number;
+  OAUTH_PROVIDERS: OAuthProviderConfig[];
 }
 
 const getEnvConfig = (): EnvConfig => {
+  const appUrl = process.env.APP_URL || 'http://localhost:3000';
+
   return {
     NODE_ENV: process.env.NODE_ENV || 'production',
     PORT: parseInt(process.env.PORT || '5000', 10),
     MONGODB_URI: process.env.MONGODB_URI!,
     JWT_SECRET: process.env.JWT_SECRET!,
-    JWT_EXPIRE: process.env.JWT_EXPIRE || '7d',
+    JWT_ACCESS_EXPIRE: process.env.JWT_ACCESS_EXPIRE || '15m',
+    REFRESH_TOKEN_EXPIRE_DAYS: parseInt(process.env.REFRESH_TOKEN_EXPIRE_DAYS || '30', 10),
     CORS_ORIGIN: process.env.CORS_ORIGIN || '*',
     OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
     RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10), 
     RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '1000', 10), 
+    AUTH_RATE_LIMIT_WINDOW_MS: parseInt(process.env.AUTH_RATE_LIMIT_WINDOW_MS || '900000', 10),
+    AUTH_RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.AUTH_RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    LOGIN_MAX_ACCOUNT_FAILURES: parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || '5', 10),
+    LOGIN_MAX_IP_FAILURES: parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20', 10),
+    LOGIN_FAILURE_WINDOW_MINUTES: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15', 10),
+    LOGIN_LOCKOUT_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+    APP_URL: appUrl,
+    // Only explicitly configured origins - never the request host
+    PUBLIC_URL: (process.env.PUBLIC_URL || process.env.APP_URL || '').replace(/\/+$/, ''),
+    MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || 'console',
+    MAIL_FROM: process.env.MAIL_FROM || 'no-reply@synkicycle.app',
+    MAIL_FILE_DIR: process.env.MAIL_FILE_DIR || 'tmp/mail',
+    PASSWORD_RESET_EXPIRE_MINUTES: parseInt(process.env.PASSWORD_RESET_EXPIRE_MINUTES || '60', 10),
+    EMAIL_VERIFICATION_EXPIRE_MINUTES: parseInt(process.env.EMAIL_VERIFICATION_EXPIRE_MINUTES || '1440', 10),
+    MAGIC_LINK_EXPIRE_MINUTES: parseInt(process.env.MAGIC_LINK_EXPIRE_MINUTES || '15', 10),
+    EMAIL_CHANGE_EXPIRE_MINUTES: parseInt(process.env.EMAIL_CHANGE_EXPIRE_MINUTES || '60', 10),
+    PASSWORD_MIN_LENGTH: parseInt(process.env.PASSWORD_MIN_LENGTH || '8', 10),
+    PASSWORD_MAX_LENGTH: parseInt(process.env.PASSWORD_MAX_LENGTH || '128', 10),
+    PASSWORD_REQUIRE_LOWERCASE: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+    PASSWORD_REQUIRE_UPPERCASE: process.env.PASSWORD_REQUIRE_UPPERCASE === 'true',
+    PASSWORD_REQUIRE_NUMBER: process.env.PASSWORD_REQUIRE_NUMBER !== 'false',
+    PASSWORD_REQUIRE_SYMBOL: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+    PASSWORD_DISALLOW_PERSONAL_INFO: process.env.PASSWORD_DISALLOW_PERSONAL_INFO !== 'false',
+    PASSWORD_BLOCK_COMMON: process.env.PASSWORD_BLOCK_COMMON !== 'false',
+    PASSWORD_BLOCKLIST_FILE: process.env.PASSWORD_BLOCKLIST_FILE || '',
+    TOTP_ISSUER: process.env.TOTP_ISSUER || 'Synkicycle',
+    TWO_FACTOR_CHALLENGE_EXPIRE: process.env.TWO_FACTOR_CHALLENGE_EXPIRE || '5m',
+    ACCOUNT_DELETION_GRACE_DAYS: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10),
+    DATA_EXPORT_DIR: process.env.DATA_EXPORT_DIR || 'tmp/exports',
+    DATA_EXPORT_EXPIRE_HOURS: parseInt(process.env.DATA_EXPORT_EXPIRE_HOURS || '24', 10),
+    DATA_EXPORT_TIMEOUT_MINUTES: parseInt(process.env.DATA_EXPORT_TIMEOUT_MINUTES || '30', 10),
+    STORAGE_DRIVER: process.env.STORAGE_DRIVER || 'local',
+    UPLOAD_DIR: process.env.UPLOAD_DIR || 'uploads',
+    UPLOAD_PUBLIC_URL: process.env.UPLOAD_PUBLIC_URL || '/uploads',
+    S3_BUCKET: process.env.S3_BUCKET || '',
+    S3_REGION: process.env.S3_REGION || 'us-east-1',
+    S3_ENDPOINT: process.env.S3_ENDPOINT || '',
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+    S3_PUBLIC_URL: process.env.S3_PUBLIC_URL || '',
+    S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true',
+    AVATAR_MAX_SIZE_MB: parseInt(process.env.AVATAR_MAX_SIZE_MB || '5', 10),
+    AVATAR_SIZES: (process.env.AVATAR_SIZES || '64,128,256,512')
+      .split(',')
+      .map((size) => parseInt(size.trim(), 10))
+      .filter((size) => size > 0)
+      .sort((a, b) => a - b),
+    PROFILE_VIEW_RETENTION_DAYS: parseInt(process.env.PROFILE_VIEW_RETENTION_DAYS || '180', 10),
+    NEARBY_RADIUS_KM: parseFloat(process.env.NEARBY_RADIUS_KM || '1'),
+    NEARBY_MAX_RADIUS_KM: parseFloat(process.env.NEARBY_MAX_RADIUS_KM || '50'),
+    LOCATION_MAX_AGE_MINUTES: parseInt(process.env.LOCATION_MAX_AGE_MINUTES || '60', 10),
+    OAUTH_PROVIDERS: getOAuthProviders(appUrl),
   };
 };
 
@@ -0,0 +1,480 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { IUser, User, USER_ROLES } from '@models/User';
+import { Connection } from '@models/Connection';
+import { Message } from '@models/Message';
+import { Conversation } from '@models/Conversation';
+import { SecurityEvent } from '@models/SecurityEvent';
+import sessionService from '@services/session.service';
+import mailService from '@services/mail.service';
+import accountService from '@services/account.service';
+import apiKeyService from '@services/apiKey.service';
+import { generateRandomToken } from '@utils/token';
+import { escapeRegex } from '@utils/validation';
+
+/**
+ * User fields visible to admins
+ */
+const formatAdminUser = (user: IUser) => ({
+  id: user._id,
+  uuid: user.uuid,
+  username: user.username,
+  name: user.name,
+  email: user.email,
+  phone: user.phone,
+  avatar: user.avatar,
+  profession: user.profession,
+  role: user.role,
+  verified: user.verified,
+  suspended: user.suspended,
+  suspendedAt: user.suspendedAt,
+  suspendedReason: user.suspendedReason,
+  deletedAt: user.deletedAt,
+  scheduledPurgeAt: user.scheduledPurgeAt,
+  twoFactorEnabled: user.twoFactorEnabled,
+  lastActive: user.lastActive,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+/**
+ * Load the user targeted by an admin action, answering 404 when missing
+ */
+const findTargetUser = async (req: Request, res: Response): Promise<IUser | null> => {
+  const { userId } = req.params;
+
+  const user = mongoose.Types.ObjectId.isValid(userId!) ? await User.findById(userId) : null;
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      message: 'User not found',
+    });
+    return null;
+  }
+
+  return user;
+};
+
+/**
+ * @desc    List and search users
+ * @route   GET /api/admin/users
+ * @access  Private (admin)
+ */
+export const listUsers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { search, role, verified, suspended, page = 1, limit = 20 } = req.query;
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 20, 1), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    // Build query
+    const query: Record<string, unknown> = {};
+
+    if (typeof search === 'string' && search.trim()) {
+      const pattern = { $regex: escapeRegex(search.trim()), $options: 'i' };
+      query.$or = [{ email: pattern }, { name: pattern }, { username: pattern }];
+    }
+
+    if (typeof role === 'string' && USER_ROLES.includes(role as IUser['role'])) {
+      query.role = role;
+    }
+
+    if (verified === 'true' || verified === 'false') {
+      query.verified = verified === 'true';
+    }
+
+    if (suspended === 'true') {
+      query.suspended = true;
+    } else if (suspended === 'false') {
+      query.suspended = { $ne: true };
+    }
+
+    const users = await User.find(query).sort({ createdAt: -1 }).skip(skip).limit(limitNum);
+    const total = await User.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      message: 'Users retrieved successfully',
+      data: {
+        users: users.map(formatAdminUser),
+        pagination: {
+          current: pageNum,
+          pages: Math.ceil(total / limitNum),
+          total,
+          limit: limitNum,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Admin list users error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list users',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Get a user's details
+ * @route   GET /api/admin/users/:userId
+ * @access  Private (admin)
+ */
+export const getUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) return;
+
+    const sessions = await sessionService.getActiveSessions(user._id.toString());
+
+    res.status(200).json({
+      success: true,
+      data: {
+        user: {
+          ...formatAdminUser(user),
+          bio: user.bio,
+          interests: user.interests,
+        },
+        activeSessions: sessions.length,
+        isOnline: global.socketService?.isUserOnline(user._id.toString()) || false,
+      },
+    });
+  } catch (error) {
+    console.error('Admin get user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get user',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Get a user's connections
+ * @route   GET /api/admin/users/:userId/connections
+ * @access  Private (admin)
+ */
+export const getUserConnections = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) return;
+
+    const { status = 'all', page = 1, limit = 20 } = req.query;
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 20, 1), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const query: Record<string, unknown> = { participants: user._id };
+    if (status !== 'all') {
+      query.status = status;
+    }
+
+    const connections = await Connection.find(query)
+      .populate([
+        { path: 'participants', select: 'name username email avatar verified' },
+        { path: 'initiator', select: 'name username email avatar' },
+      ])
+      .sort({ updatedAt: -1 })
+      .skip(skip)
+      .limit(limitNum);
+
+    const total = await Connection.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      message: 'Connections retrieved successfully',
+      data: {
+        connections,
+        pagination: {
+          current: pageNum,
+          pages: Math.ceil(total / limitNum),
+          total,
+          limit: limitNum,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Admin get user connections error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get user connections',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Get a user's activity summary
+ * @route   GET /api/admin/users/:userId/activity
+ * @access  Private (admin)
+ */
+export const getUserActivity = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) return;
+
+    const { days = 30 } = req.query;
+    const daysNum = Math.max(parseInt(days as string) || 30, 1);
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - daysNum);
+
+    const [connectionsByStatus, messagesSent, messagesReceived, chatbotConversations] =
+      await Promise.all([
+        Connection.aggregate([
+          { $match: { participants: user._id } },
+          { $group: { _id: '$status', count: { $sum: 1 } } },
+        ]),
+        Message.countDocuments({ senderId: user._id, createdAt: { $gte: startDate } }),
+        Message.countDocuments({ receiverId: user._id, createdAt: { $gte: startDate } }),
+        Conversation.countDocuments({ userId: user._id.toString() }),
+      ]);
+
+    const sessions = await sessionService.getActiveSessions(user._id.toString());
+    const securityEvents = await SecurityEvent.find({ userId: user._id })
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .select('type ip userAgent metadata createdAt');
+
+    res.status(200).json({
+      success: true,
+      message: 'User activity retrieved successfully',
+      data: {
+        connections: connectionsByStatus.reduce<Record<string, number>>((acc, item) => {
+          acc[item._id] = item.count;
+          return acc;
+        }, {}),
+        messages: {
+          sent: messagesSent,
+          received: messagesReceived,
+        },
+        chatbotConversations,
+        sessions: sessions.map((session) => ({
+          id: session._id,
+          deviceName: session.deviceName,
+          ip: session.ip,
+          createdAt: session.createdAt,
+          lastSeenAt: session.lastUsedAt,
+        })),
+        securityEvents,
+        lastActive: user.lastActive,
+        period: {
+          start: startDate,
+          end: new Date(),
+          days: daysNum,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Admin get user activity error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get user activity',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Suspend a user
+ * @route   PUT /api/admin/users/:userId/suspend
+ * @access  Private (admin)
+ */
+export const suspendUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) return;
+
+    const { reason } = req.body;
+
+    if (user._id.equals(req.user!._id)) {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot suspend your own account',
+      });
+      return;
+    }
+
+    if (user.suspended) {
+      res.status(400).json({
+        success: false,
+        message: 'User is already suspended',
+      });
+      return;
+    }
+
+    user.suspended = true;
+    user.suspendedAt = new Date();
+    user.suspendedReason = reason;
+    await user.save();
+
+    await SecurityEvent.create({
+      userId: user._id,
+      type: 'account_suspended',
+      metadata: { reason, by: req.user!._id },
+    });
+
+    // Kick the user off every live connection
+    global.socketService?.disconnectUser(user._id.toString(), 'Account suspended');
+
+    res.status(200).json({
+      success: true,
+      message: 'User suspended successfully',
+      data: { user: formatAdminUser(user) },
+    });
+  } catch (error) {
+    console.error('Admin suspend user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to suspend user',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Lift a user's suspension
+ * @route   PUT /api/admin/users/:userId/unsuspend
+ * @access  Private (admin)
+ */
+export const unsuspendUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) return;
+
+    if (!user.suspended) {
+      res.status(400).json({
+        success: false,
+        message: 'User is not suspended',
+      });
+      return;
+    }
+
+    user.suspended = false;
+    user.suspendedAt = undefined;
+    user.suspendedReason = undefined;
+    await user.save();
+
+    await SecurityEvent.create({
+      userId: user._id,
+      type: 'account_unsuspended',
+      metadata: { by: req.user!._id },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'User unsuspended successfully',
+      data: { user: formatAdminUser(user) },
+    });
+  } catch (error) {
+    console.error('Admin unsuspend user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to unsuspend user',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Mark a user's email as verified
+ * @route   PUT /api/admin/users/:userId/verify
+ * @access  Private (admin)
+ */
+export const verifyUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) return;
+
+    user.verified = true;
+    user.emailVerificationCodeHash = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'User verified successfully',
+      data: { user: formatAdminUser(user) },
+    });
+  } catch (error) {
+    console.error('Admin verify user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify user',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Force a password reset (old password, sessions and API keys stop working)
+ * @route   POST /api/admin/users/:userId/reset-password
+ * @access  Private (admin)
+ */
+export const resetUserPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) return;
+
+    // The old password must stop working - the user sets a new one from the email
+    user.password = generateRandomToken();
+    const resetToken = user.createPasswordResetToken();
+    await user.save();
+
+    await sessionService.revokeAllSessions(user._id.toString(), 'password_reset');
+    await apiKeyService.revokeAllKeys(user._id);
+    global.socketService?.disconnectUser(user._id.toString(), 'Password reset by administrator');
+
+    await mailService.sendPasswordResetEmail(user.email, resetToken);
+
+    res.status(200).json({
+      success: true,
+      message: 'Password reset email sent and all access revoked',
+    });
+  } catch (error) {
+    console.error('Admin reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reset password',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Permanently delete a user and their data
+ * @route   DELETE /api/admin/users/:userId
+ * @access  Private (admin)
+ */
+export const deleteUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) return;
+
+    if (user._id.equals(req.user!._id)) {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot delete your own account from the admin API',
+      });
+      return;
+    }
+
+    global.socketService?.disconnectUser(user._id.toString(), 'Account deleted');
+    const deleted = await accountService.purgeUserData(user._id.toString());
+
+    res.status(200).json({
+      success: true,
+      message: 'User deleted successfully',
+      data: { deleted },
+    });
+  } catch (error) {
+    console.error('Admin delete user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete user',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
@@ -0,0 +1,185 @@
+import { Request, Response } from 'express';
+import { API_KEY_SCOPES, ApiKeyScope, IApiKey } from '@models/ApiKey';
+import apiKeyService, { MAX_API_KEYS_PER_USER } from '@services/apiKey.service';
+
+// Longest lifetime that can be requested for a key
+const MAX_EXPIRY_DAYS = 365;
+
+/**
+ * Public view of an API key (never includes the key or its hash)
+ */
+const formatApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  revokedAt: apiKey.revokedAt,
+  active: apiKey.isActive(),
+  createdAt: apiKey.createdAt,
+});
+
+/**
+ * @desc    Create a personal API key
+ * @route   POST /api/auth/api-keys
+ * @access  Private
+ */
+export const createApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { name, scopes, expiresInDays } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide a name for the key',
+      });
+      return;
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every((scope) => API_KEY_SCOPES.includes(scope))
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `Please provide at least one scope. Available scopes: ${API_KEY_SCOPES.join(', ')}`,
+      });
+      return;
+    }
+
+    let expiresAt: Date | undefined;
+    if (expiresInDays !== undefined && expiresInDays !== null) {
+      const days = Number(expiresInDays);
+
+      if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+        res.status(400).json({
+          success: false,
+          message: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`,
+        });
+        return;
+      }
+
+      expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    }
+
+    const activeKeys = await apiKeyService.countActiveKeys(currentUser._id);
+    if (activeKeys >= MAX_API_KEYS_PER_USER) {
+      res.status(400).json({
+        success: false,
+        message: `You can have at most ${MAX_API_KEYS_PER_USER} active API keys`,
+      });
+      return;
+    }
+
+    const { apiKey, key } = await apiKeyService.createKey(currentUser._id, {
+      name: name.trim(),
+      scopes: scopes as ApiKeyScope[],
+      expiresAt,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy it now - it will not be shown again',
+      data: {
+        key,
+        apiKey: formatApiKey(apiKey),
+      },
+    });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating API key',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    List personal API keys
+ * @route   GET /api/auth/api-keys
+ * @access  Private
+ */
+export const listApiKeys = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const apiKeys = await apiKeyService.listKeys(currentUser._id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        apiKeys: apiKeys.map(formatApiKey),
+        availableScopes: API_KEY_SCOPES,
+      },
+    });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching API keys',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Revoke a personal API key
+ * @route   DELETE /api/auth/api-keys/:id
+ * @access  Private
+ */
+export const revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const revoked = await apiKeyService.revokeKey(id!, currentUser._id);
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        message: 'API key not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'API key revoked successfully',
+    });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error revoking API key',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
@@ -1,7 +1,73 @@
 import { Request, Response } from 'express';
-import { User } from '@models/User';
-import { generateToken } from '@utils/jwt';
-import { isValidEmail, isValidPassword, isValidName, isValidUsername } from '@utils/validation';
+import { IUser, User } from '@models/User';
+import { SecurityEvent } from '@models/SecurityEvent';
+import sessionService, { SessionMeta } from '@services/session.service';
+import mailService from '@services/mail.service';
+import twoFactorService, { TWO_FACTOR_FIELDS } from '@services/twoFactor.service';
+import loginThrottleService from '@services/loginThrottle.service';
+import accountService from '@services/account.service';
+import exportService from '@services/export.service';
+import avatarService from '@services/avatar.service';
+import magicLinkService from '@services/magicLink.service';
+import apiKeyService from '@services/apiKey.service';
+import tagService from '@services/tag.service';
+import oauthService, { OAuthError } from '@services/oauth.service';
+import { IDataExport } from '@models/DataExport';
+import { generateChallengeToken, verifyChallengeToken } from '@utils/jwt';
+import { hashToken, safeCompare } from '@utils/token';
+import {
+  isStringArray,
+  isValidEmail,
+  isValidHttpUrl,
+  isValidName,
+  isValidUsername,
+} from '@utils/validation';
+import { getPasswordPolicy, validatePassword } from '@utils/passwordPolicy';
+
+/**
+ * Collect client details recorded on the session
+ */
+const getSessionMeta = (req: Request): SessionMeta => ({
+  deviceName:
+    typeof req.body?.deviceName === 'string' ? req.body.deviceName.trim().slice(0, 100) : undefined,
+  userAgent: req.headers['user-agent'],
+  ip: req.ip,
+});
+
+/**
+ * User fields returned after a successful login
+ */
+const formatLoginUser = (user: IUser) => ({
+  id: user._id,
+  uuid: user.uuid,
+  username: user.username,
+  name: user.name,
+  email: user.email,
+  phone: user.phone,
+  avatar: user.avatar,
+  bio: user.bio,
+  profession: user.profession,
+  interests: user.interests,
+  verified: user.verified,
+  role: user.role,
+  twoFactorEnabled: user.twoFactorEnabled,
+  createdAt: user.createdAt,
+});
+
+/**
+ * Public view of a data export (the file path stays on the server)
+ */
+const formatDataExport = (dataExport: IDataExport) => ({
+  id: dataExport._id,
+  format: dataExport.format,
+  status: dataExport.status,
+  fileName: dataExport.fileName,
+  size: dataExport.size,
+  error: dataExport.error,
+  requestedAt: dataExport.createdAt,
+  completedAt: dataExport.completedAt,
+  expiresAt: dataExport.expiresAt,
+});
 
 /**
  * @desc    Register new user
@@ -30,11 +96,13 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Validate password
-    if (!isValidPassword(password)) {
+    // Validate password against the policy
+    const passwordCheck = validatePassword(password, { email });
+    if (!passwordCheck.valid) {
       res.status(400).json({
         success: false,
-        message: 'Password must be at least 6 characters',
+        message: 'Password does not meet the requirements',
+        errors: passwordCheck.failures,
       });
       return;
     }
@@ -50,23 +118,30 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     }
 
     // Create user (username and name will be set during profile setup)
-    const user = await User.create({
+    const user = new User({
       email,
       password,
-      verified: true,
+      verified: false,
     });
+    const verificationCode = user.createEmailVerificationCode();
+    await user.save();
 
-    // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-    });
+    // Registration still succeeds if the email can't be sent; the user can resend it
+    try {
+      await mailService.sendVerificationEmail(user.email, verificationCode);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+
+    // Start session and generate tokens
+    const { token, refreshToken } = await sessionService.createSession(user, getSessionMeta(req));
 
     res.status(201).json({
       success: true,
-      message: 'User registered successfully',
+      message: 'User registered successfully. Please verify your email',
       data: {
         token,
+        refreshToken,
         user: {
           id: user._id,
           uuid: user.uuid,
@@ -99,10 +174,12 @@ export const register = async (req: Request, res: Response): Promise<void> => {
  */
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, password } = req.body;
+    const { password } = req.body;
+    // Normalized once, so the lookup and the lockout use the same key
+    const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
 
     // Validate input
-    if (!email || !password) {
+    if (!email || typeof password !== 'string' || !password) {
       res.status(400).json({
         success: false,
         message: 'Please provide email and password',
@@ -110,9 +187,32 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Reject while the account or IP is locked out
+    const lockStatus = await loginThrottleService.getLockStatus(email, req.ip);
+    if (lockStatus.locked) {
+      res.setHeader('Retry-After', String(lockStatus.retryAfterSeconds));
+      res.status(429).json({
+        success: false,
+        message: 'Too many failed login attempts. Please try again later',
+        retryAfter: lockStatus.retryAfterSeconds,
+      });
+      return;
+    }
+
     // Check if user exists (include password for comparison)
     const user = await User.findOne({ email }).select('+password');
-    if (!user) {
+
+    // Check password
+    const isPasswordMatch = user ? await user.comparePassword(password) : false;
+    if (!user || !isPasswordMatch) {
+      const delayMs = await loginThrottleService.registerFailure({
+        email,
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+        userId: user?._id,
+      });
+      await loginThrottleService.delay(delayMs);
+
       res.status(401).json({
         success: false,
         message: 'Invalid credentials',
@@ -120,45 +220,54 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Check password
-    const isPasswordMatch = await user.comparePassword(password);
-    if (!isPasswordMatch) {
-      res.status(401).json({
+    if (user.suspended) {
+      res.status(403).json({
         success: false,
-        message: 'Invalid credentials',
+        message: 'Your account has been suspended',
+      });
+      return;
+    }
+
+    if (user.deletedAt) {
+      res.status(403).json({
+        success: false,
+        message: 'This account is scheduled for deletion. Restore it to sign in again',
+        data: {
+          scheduledPurgeAt: user.scheduledPurgeAt,
+        },
+      });
+      return;
+    }
+
+    // Second step required - no session until the code is verified
+    if (user.twoFactorEnabled) {
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateChallengeToken(user._id.toString()),
+        },
       });
       return;
     }
 
+    await loginThrottleService.registerSuccess(user.email);
+
     // Update last active
     user.lastActive = new Date();
     await user.save();
 
-    // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-    });
+    // Start session and generate tokens
+    const { token, refreshToken } = await sessionService.createSession(user, getSessionMeta(req));
 
     res.status(200).json({
       success: true,
       message: 'Login successful',
       data: {
         token,
-        user: {
-          id: user._id,
-          uuid: user.uuid,
-          username: user.username,
-          name: user.name,
-          email: user.email,
-          phone: user.phone,
-          avatar: user.avatar,
-          bio: user.bio,
-          profession: user.profession,
-          interests: user.interests,
-          verified: user.verified,
-          createdAt: user.createdAt,
-        },
+        refreshToken,
+        user: formatLoginUser(user),
       },
     });
   } catch (error) {
@@ -202,7 +311,10 @@ export const getMe = async (req: Request, res: Response): Promise<void> => {
           bio: user.bio,
           profession: user.profession,
           interests: user.interests,
+          privacy: user.privacy,
           verified: user.verified,
+          pendingEmail: user.pendingEmail,
+          role: user.role,
           lastActive: user.lastActive,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
@@ -274,16 +386,39 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    // Validate interests if provided
+    if (interests !== undefined && !isStringArray(interests)) {
+      res.status(400).json({
+        success: false,
+        message: 'Interests must be an array of strings',
+      });
+      return;
+    }
+
+    // Validate avatar URL if provided
+    if (avatar && (typeof avatar !== 'string' || !isValidHttpUrl(avatar))) {
+      res.status(400).json({
+        success: false,
+        message: 'Avatar must be an http or https URL',
+      });
+      return;
+    }
+
+    // An avatar URL set by the client replaces any uploaded image
+    const avatarChanged = Boolean(avatar) && avatar !== user.avatar;
+
     // Update fields
     if (name) user.name = name;
     if (phone) user.phone = phone;
     if (bio) user.bio = bio;
     if (profession) user.profession = profession;
-    if (interests) user.interests = interests;
+    if (interests) user.interests = await tagService.normalize(interests);
     if (avatar) user.avatar = avatar;
 
     await user.save();
 
+    if (avatarChanged) await avatarService.discardUpload(user._id);
+
     res.status(200).json({
       success: true,
       message: 'Profile updated successfully',
@@ -315,3 +450,1923 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
     });
   }
 };
+
+/**
+ * @desc    Exchange refresh token for a new token pair
+ * @route   POST /api/auth/refresh
+ * @access  Public
+ */
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide a refresh token',
+      });
+      return;
+    }
+
+    const result = await sessionService.rotateSession(refreshToken, getSessionMeta(req));
+
+    if (!result) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid or expired refresh token',
+      });
+      return;
+    }
+
+    if (result.user.suspended) {
+      res.status(403).json({
+        success: false,
+        message: 'Your account has been suspended',
+      });
+      return;
+    }
+
+    if (result.user.deletedAt) {
+      res.status(401).json({
+        success: false,
+        message: 'Account has been deleted',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Token refreshed successfully',
+      data: {
+        token: result.tokens.token,
+        refreshToken: result.tokens.refreshToken,
+      },
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error refreshing token',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Logout current session
+ * @route   POST /api/auth/logout
+ * @access  Private
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessionId = req.sessionId;
+
+    if (!sessionId) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    await sessionService.revokeSession(sessionId, 'logout');
+    global.socketService?.disconnectSession(sessionId, 'Logged out');
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error logging out',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Logout from all sessions
+ * @route   POST /api/auth/logout-all
+ * @access  Private
+ */
+export const logoutAll = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const revokedCount = await sessionService.revokeAllSessions(user._id.toString(), 'logout_all');
+    global.socketService?.disconnectUser(user._id.toString(), 'Logged out from all devices');
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out from all sessions successfully',
+      data: {
+        revokedSessions: revokedCount,
+      },
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error logging out from all sessions',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Request password reset email
+ * @route   POST /api/auth/forgot-password
+ * @access  Public
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email || !isValidEmail(email)) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide a valid email',
+      });
+      return;
+    }
+
+    const user = await User.findOne({ email: email.toLowerCase() });
+
+    // Only send when the account exists, but always answer the same way
+    // so the endpoint can't be used to discover registered emails
+    if (user) {
+      const resetToken = user.createPasswordResetToken();
+      await user.save();
+
+      try {
+        await mailService.sendPasswordResetEmail(user.email, resetToken);
+      } catch (mailError) {
+        console.error('Password reset email error:', mailError);
+        user.passwordResetTokenHash = undefined;
+        user.passwordResetExpires = undefined;
+        await user.save();
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent',
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error requesting password reset',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Reset password with token from email
+ * @route   POST /api/auth/reset-password
+ * @access  Public
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide reset token and new password',
+      });
+      return;
+    }
+
+    const user = await User.findOne({
+      passwordResetTokenHash: hashToken(token),
+      passwordResetExpires: { $gt: new Date() },
+    });
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired reset token',
+      });
+      return;
+    }
+
+    const passwordCheck = validatePassword(password, {
+      email: user.email,
+      name: user.name,
+      username: user.username,
+    });
+    if (!passwordCheck.valid) {
+      res.status(400).json({
+        success: false,
+        message: 'Password does not meet the requirements',
+        errors: passwordCheck.failures,
+      });
+      return;
+    }
+
+    // Token is single-use
+    user.password = password;
+    user.passwordResetTokenHash = undefined;
+    user.passwordResetExpires = undefined;
+    await user.save();
+
+    // Sign the account out everywhere and lift any lockout
+    await sessionService.revokeAllSessions(user._id.toString(), 'password_reset');
+    await apiKeyService.revokeAllKeys(user._id);
+    global.socketService?.disconnectUser(user._id.toString(), 'Password was reset');
+    await loginThrottleService.clearAccount(user.email);
+
+    res.status(200).json({
+      success: true,
+      message: 'Password reset successfully. Please log in with your new password',
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error resetting password',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Change password for logged in user
+ * @route   PUT /api/auth/password
+ * @access  Private
+ */
+export const changePassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!currentPassword || !newPassword) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide current and new password',
+      });
+      return;
+    }
+
+    const passwordCheck = validatePassword(newPassword, {
+      email: currentUser.email,
+      name: currentUser.name,
+      username: currentUser.username,
+    });
+    if (!passwordCheck.valid) {
+      res.status(400).json({
+        success: false,
+        message: 'Password does not meet the requirements',
+        errors: passwordCheck.failures,
+      });
+      return;
+    }
+
+    // Reload user with password for comparison
+    const user = await User.findById(currentUser._id).select('+password');
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const isPasswordMatch = await user.comparePassword(currentPassword);
+    if (!isPasswordMatch) {
+      res.status(401).json({
+        success: false,
+        message: 'Current password is incorrect',
+      });
+      return;
+    }
+
+    user.password = newPassword;
+    await user.save();
+
+    // Keep the current session, sign out every other device
+    const otherSessions = (await sessionService.getActiveSessions(user._id.toString())).filter(
+      (session) => session._id.toString() !== req.sessionId
+    );
+    await sessionService.revokeAllSessions(user._id.toString(), 'password_change', req.sessionId);
+    otherSessions.forEach((session) => {
+      global.socketService?.disconnectSession(session._id.toString(), 'Password was changed');
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Password changed successfully',
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error changing password',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Maximum wrong codes before a verification code is invalidated
+const MAX_VERIFICATION_ATTEMPTS = 5;
+
+// Minimum delay between two verification emails
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * @desc    Verify email address with code from email
+ * @route   POST /api/auth/verify-email
+ * @access  Public
+ */
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, code } = req.body;
+
+    if (!email || !code) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide email and verification code',
+      });
+      return;
+    }
+
+    const user = await User.findOne({ email: String(email).toLowerCase() }).select(
+      '+emailVerificationCodeHash +emailVerificationExpires +emailVerificationAttempts'
+    );
+
+    if (user?.verified) {
+      res.status(200).json({
+        success: true,
+        message: 'Email already verified',
+      });
+      return;
+    }
+
+    if (
+      !user ||
+      !user.emailVerificationCodeHash ||
+      !user.emailVerificationExpires ||
+      user.emailVerificationExpires.getTime() < Date.now()
+    ) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired verification code',
+      });
+      return;
+    }
+
+    if (!safeCompare(hashToken(String(code)), user.emailVerificationCodeHash)) {
+      user.emailVerificationAttempts = (user.emailVerificationAttempts || 0) + 1;
+
+      // Too many wrong guesses - the user has to request a new code
+      if (user.emailVerificationAttempts >= MAX_VERIFICATION_ATTEMPTS) {
+        user.emailVerificationCodeHash = undefined;
+        user.emailVerificationExpires = undefined;
+      }
+
+      await user.save();
+
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired verification code',
+      });
+      return;
+    }
+
+    user.verified = true;
+    user.emailVerificationCodeHash = undefined;
+    user.emailVerificationExpires = undefined;
+    user.emailVerificationAttempts = 0;
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Email verified successfully',
+      data: {
+        user: {
+          id: user._id,
+          email: user.email,
+          verified: user.verified,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error verifying email',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Resend email verification code
+ * @route   POST /api/auth/resend-verification
+ * @access  Private
+ */
+export const resendVerification = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (currentUser.verified) {
+      res.status(400).json({
+        success: false,
+        message: 'Email already verified',
+      });
+      return;
+    }
+
+    const user = await User.findById(currentUser._id).select('+emailVerificationSentAt');
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    if (
+      user.emailVerificationSentAt &&
+      Date.now() - user.emailVerificationSentAt.getTime() < VERIFICATION_RESEND_COOLDOWN_MS
+    ) {
+      res.status(429).json({
+        success: false,
+        message: 'Please wait a minute before requesting another verification email',
+      });
+      return;
+    }
+
+    const verificationCode = user.createEmailVerificationCode();
+    await user.save();
+
+    await mailService.sendVerificationEmail(user.email, verificationCode);
+
+    res.status(200).json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error sending verification email',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Complete login with a 2FA code
+ * @route   POST /api/auth/2fa/verify
+ * @access  Public
+ */
+export const verifyTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide challenge token and authentication code',
+      });
+      return;
+    }
+
+    let challenge;
+    try {
+      challenge = verifyChallengeToken(challengeToken);
+    } catch {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid or expired challenge token. Please log in again',
+      });
+      return;
+    }
+
+    const user = await User.findById(challenge.userId).select(TWO_FACTOR_FIELDS);
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code',
+      });
+      return;
+    }
+
+    // Codes are guessable too - count them against the same lockout
+    const lockStatus = await loginThrottleService.getLockStatus(user.email, req.ip);
+    if (lockStatus.locked) {
+      res.setHeader('Retry-After', String(lockStatus.retryAfterSeconds));
+      res.status(429).json({
+        success: false,
+        message: 'Too many failed login attempts. Please try again later',
+        retryAfter: lockStatus.retryAfterSeconds,
+      });
+      return;
+    }
+
+    if (!twoFactorService.verifyCode(user, code, recoveryCode)) {
+      const delayMs = await loginThrottleService.registerFailure({
+        email: user.email,
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+        userId: user._id,
+      });
+      await loginThrottleService.delay(delayMs);
+
+      res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code',
+      });
+      return;
+    }
+
+    await loginThrottleService.registerSuccess(user.email);
+
+    // Persist consumed code / recovery code
+    user.lastActive = new Date();
+    await user.save();
+
+    const { token, refreshToken } = await sessionService.createSession(user, getSessionMeta(req));
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        token,
+        refreshToken,
+        user: formatLoginUser(user),
+        ...(recoveryCode && {
+          recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length || 0,
+        }),
+      },
+    });
+  } catch (error) {
+    console.error('Verify 2FA login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error verifying authentication code',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Start 2FA enrollment
+ * @route   POST /api/auth/2fa/enroll
+ * @access  Private
+ */
+export const enrollTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (currentUser.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled',
+      });
+      return;
+    }
+
+    const { secret, otpauthUri } = twoFactorService.startEnrollment(currentUser);
+    await currentUser.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: {
+        secret,
+        otpauthUri,
+      },
+    });
+  } catch (error) {
+    console.error('Enroll 2FA error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error starting two-factor enrollment',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Confirm 2FA enrollment with a code
+ * @route   POST /api/auth/2fa/confirm
+ * @access  Private
+ */
+export const confirmTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { code } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!code) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide authentication code',
+      });
+      return;
+    }
+
+    const user = await User.findById(currentUser._id).select(`${TWO_FACTOR_FIELDS} +twoFactorPendingSecret`);
+    if (!user || !user.twoFactorPendingSecret) {
+      res.status(400).json({
+        success: false,
+        message: 'No two-factor enrollment in progress',
+      });
+      return;
+    }
+
+    const recoveryCodes = twoFactorService.confirmEnrollment(user, code);
+    if (!recoveryCodes) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code',
+      });
+      return;
+    }
+
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe',
+      data: {
+        recoveryCodes,
+      },
+    });
+  } catch (error) {
+    console.error('Confirm 2FA error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error confirming two-factor authentication',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Disable 2FA
+ * @route   POST /api/auth/2fa/disable
+ * @access  Private
+ */
+export const disableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { password, code, recoveryCode } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!password || (!code && !recoveryCode)) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide password and authentication code',
+      });
+      return;
+    }
+
+    const user = await User.findById(currentUser._id).select(`+password ${TWO_FACTOR_FIELDS}`);
+    if (!user || !user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled',
+      });
+      return;
+    }
+
+    const isPasswordMatch = await user.comparePassword(password);
+    if (!isPasswordMatch || !twoFactorService.verifyCode(user, code, recoveryCode)) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid password or authentication code',
+      });
+      return;
+    }
+
+    twoFactorService.disable(user);
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    console.error('Disable 2FA error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error disabling two-factor authentication',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Regenerate 2FA recovery codes
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @access  Private
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { code } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!code) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide authentication code',
+      });
+      return;
+    }
+
+    const user = await User.findById(currentUser._id).select(TWO_FACTOR_FIELDS);
+    if (!user || !twoFactorService.verifyCode(user, code)) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code',
+      });
+      return;
+    }
+
+    const recoveryCodes = twoFactorService.regenerateRecoveryCodes(user);
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Recovery codes regenerated. Previous codes no longer work',
+      data: {
+        recoveryCodes,
+      },
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error regenerating recovery codes',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Get security events (e.g. lockouts) for current user
+ * @route   GET /api/auth/security-events
+ * @access  Private
+ */
+export const getSecurityEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { limit = 20 } = req.query;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const limitNum = Math.min(parseInt(limit as string) || 20, 100);
+
+    const events = await SecurityEvent.find({ userId: currentUser._id })
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .select('type ip userAgent metadata createdAt');
+
+    res.status(200).json({
+      success: true,
+      data: {
+        events,
+      },
+    });
+  } catch (error) {
+    console.error('Get security events error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching security events',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    List devices the current user is signed in on
+ * @route   GET /api/auth/sessions
+ * @access  Private
+ */
+export const getSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const sessions = await sessionService.getActiveSessions(currentUser._id.toString());
+
+    res.status(200).json({
+      success: true,
+      data: {
+        sessions: sessions.map((session) => ({
+          id: session._id,
+          deviceName: session.deviceName,
+          userAgent: session.userAgent,
+          ip: session.ip,
+          createdAt: session.createdAt,
+          lastSeenAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          current: session._id.toString() === req.sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching sessions',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Sign out a specific device
+ * @route   DELETE /api/auth/sessions/:id
+ * @access  Private
+ */
+export const revokeSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const session = await sessionService.getActiveSession(id!, currentUser._id.toString());
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        message: 'Session not found',
+      });
+      return;
+    }
+
+    const sessionId = session._id.toString();
+    await sessionService.revokeSession(sessionId, 'remote_logout');
+    global.socketService?.disconnectSession(sessionId, 'Signed out from another device');
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+      data: {
+        sessionId,
+        current: sessionId === req.sessionId,
+      },
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error revoking session',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Delete own account (restorable during the grace period)
+ * @route   DELETE /api/auth/account
+ * @access  Private
+ */
+export const deleteAccount = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide your password',
+      });
+      return;
+    }
+
+    const user = await User.findById(req.user?._id).select('+password');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const isPasswordMatch = await user.comparePassword(password);
+    if (!isPasswordMatch) {
+      res.status(401).json({
+        success: false,
+        message: 'Password is incorrect',
+      });
+      return;
+    }
+
+    const scheduledPurgeAt = await accountService.softDeleteAccount(user);
+
+    res.status(200).json({
+      success: true,
+      message: 'Account deleted. You can restore it until the scheduled purge date',
+      data: {
+        scheduledPurgeAt,
+      },
+    });
+  } catch (error) {
+    console.error('Delete account error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting account',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Restore an account deleted within the grace period
+ * @route   POST /api/auth/account/restore
+ * @access  Public
+ */
+export const restoreAccount = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password } = req.body;
+    // Normalized once, so the lookup and the lockout use the same key
+    const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+
+    if (!email || typeof password !== 'string' || !password) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide email and password',
+      });
+      return;
+    }
+
+    // Same lockout as login - otherwise this endpoint could be used to guess passwords
+    const lockStatus = await loginThrottleService.getLockStatus(email, req.ip);
+    if (lockStatus.locked) {
+      res.setHeader('Retry-After', String(lockStatus.retryAfterSeconds));
+      res.status(429).json({
+        success: false,
+        message: 'Too many failed login attempts. Please try again later',
+        retryAfter: lockStatus.retryAfterSeconds,
+      });
+      return;
+    }
+
+    const user = await User.findOne({ email }).select('+password +deletedProfile');
+
+    // Accounts that are not pending deletion get the same answer as a wrong
+    // password, so the response never confirms that a password is right
+    const isPasswordMatch = user ? await user.comparePassword(password) : false;
+    if (!user || !isPasswordMatch || !user.deletedAt) {
+      const delayMs = await loginThrottleService.registerFailure({
+        email,
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+        userId: user?._id,
+      });
+      await loginThrottleService.delay(delayMs);
+
+      res.status(401).json({
+        success: false,
+        message: 'Invalid credentials',
+      });
+      return;
+    }
+
+    if (user.scheduledPurgeAt && user.scheduledPurgeAt.getTime() <= Date.now()) {
+      res.status(410).json({
+        success: false,
+        message: 'The grace period for restoring this account has ended',
+      });
+      return;
+    }
+
+    await loginThrottleService.registerSuccess(user.email);
+    await accountService.restoreAccount(user);
+
+    res.status(200).json({
+      success: true,
+      message: 'Account restored successfully. You can now log in',
+    });
+  } catch (error) {
+    console.error('Restore account error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error restoring account',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Request a copy of all personal data (generated in the background)
+ * @route   POST /api/auth/export
+ * @access  Private
+ */
+export const requestDataExport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { format = 'json' } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (format !== 'json' && format !== 'csv') {
+      res.status(400).json({
+        success: false,
+        message: 'Format must be either json or csv',
+      });
+      return;
+    }
+
+    const dataExport = await exportService.requestExport(currentUser._id, format);
+
+    res.status(202).json({
+      success: true,
+      message: 'Data export is being prepared',
+      data: formatDataExport(dataExport),
+    });
+  } catch (error) {
+    console.error('Request data export error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error requesting data export',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Get the status of a data export
+ * @route   GET /api/auth/export/:id
+ * @access  Private
+ */
+export const getDataExport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const dataExport = await exportService.getExport(id!, currentUser._id);
+
+    if (!dataExport) {
+      res.status(404).json({
+        success: false,
+        message: 'Data export not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: formatDataExport(dataExport),
+    });
+  } catch (error) {
+    console.error('Get data export error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching data export',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Download a completed data export
+ * @route   GET /api/auth/export/:id/download
+ * @access  Private
+ */
+export const downloadDataExport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const dataExport = await exportService.getExport(id!, currentUser._id);
+
+    if (!dataExport) {
+      res.status(404).json({
+        success: false,
+        message: 'Data export not found',
+      });
+      return;
+    }
+
+    if (dataExport.status !== 'completed' || !dataExport.filePath) {
+      res.status(409).json({
+        success: false,
+        message: 'Data export is not ready yet',
+        data: formatDataExport(dataExport),
+      });
+      return;
+    }
+
+    if (dataExport.expiresAt && dataExport.expiresAt.getTime() <= Date.now()) {
+      res.status(410).json({
+        success: false,
+        message: 'Data export has expired. Please request a new one',
+      });
+      return;
+    }
+
+    res.download(dataExport.filePath, dataExport.fileName || 'personal-data');
+  } catch (error) {
+    console.error('Download data export error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error downloading data export',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Email a passwordless sign-in link
+ * @route   POST /api/auth/magic-link
+ * @access  Public
+ */
+export const requestMagicLink = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email || !isValidEmail(email)) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide a valid email',
+      });
+      return;
+    }
+
+    await magicLinkService.sendLink(email, req.ip);
+
+    // Same response whether or not an account exists or a link was just sent
+    res.status(200).json({
+      success: true,
+      message: 'If the email is valid, a sign-in link has been sent',
+    });
+  } catch (error) {
+    console.error('Magic link request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error sending sign-in link',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Sign in with a magic link token (creates the account on first use)
+ * @route   POST /api/auth/magic-link/verify
+ * @access  Public
+ */
+export const verifyMagicLink = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide the sign-in token',
+      });
+      return;
+    }
+
+    const result = await magicLinkService.consumeLink(token);
+
+    if (!result) {
+      res.status(400).json({
+        success: false,
+        message: 'Sign-in link is invalid or has expired',
+      });
+      return;
+    }
+
+    const { user, created } = result;
+
+    if (user.suspended) {
+      res.status(403).json({
+        success: false,
+        message: 'Your account has been suspended',
+      });
+      return;
+    }
+
+    if (user.deletedAt) {
+      res.status(403).json({
+        success: false,
+        message: 'This account is scheduled for deletion. Restore it to sign in again',
+        data: {
+          scheduledPurgeAt: user.scheduledPurgeAt,
+        },
+      });
+      return;
+    }
+
+    // The link replaces the password, not the second factor
+    if (user.twoFactorEnabled) {
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateChallengeToken(user._id.toString()),
+        },
+      });
+      return;
+    }
+
+    await loginThrottleService.registerSuccess(user.email);
+
+    // Update last active
+    user.lastActive = new Date();
+    await user.save();
+
+    // Start session and generate tokens
+    const { token: accessToken, refreshToken } = await sessionService.createSession(
+      user,
+      getSessionMeta(req)
+    );
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      message: created ? 'Account created successfully' : 'Login successful',
+      data: {
+        token: accessToken,
+        refreshToken,
+        user: formatLoginUser(user),
+      },
+    });
+  } catch (error) {
+    console.error('Magic link verify error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error signing in',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    List the OAuth/OpenID Connect providers available for sign-in
+ * @route   GET /api/auth/oauth/providers
+ * @access  Public
+ */
+export const getOAuthProviders = async (_req: Request, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    data: {
+      providers: oauthService.getProviders(),
+    },
+  });
+};
+
+/**
+ * @desc    Start sign-in with an OAuth/OpenID Connect provider
+ * @route   POST /api/auth/oauth/:provider/authorize
+ * @access  Public
+ */
+export const startOAuthLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { provider } = req.params;
+
+    const authorizationUrl = await oauthService.createAuthorizationUrl(provider!, 'login');
+
+    res.status(200).json({
+      success: true,
+      data: {
+        authorizationUrl,
+      },
+    });
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('OAuth authorize error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error starting provider sign-in',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Complete provider sign-in (creates or links the account on first use)
+ * @route   POST /api/auth/oauth/:provider/callback
+ * @access  Public
+ */
+export const oauthCallback = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { provider } = req.params;
+    const { code, state } = req.body;
+
+    if (!code || !state) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide the authorization code and state',
+      });
+      return;
+    }
+
+    const profile = await oauthService.handleCallback(provider!, code, state, 'login');
+    const { user, created } = await oauthService.findOrCreateUser(profile);
+
+    if (user.suspended) {
+      res.status(403).json({
+        success: false,
+        message: 'Your account has been suspended',
+      });
+      return;
+    }
+
+    if (user.deletedAt) {
+      res.status(403).json({
+        success: false,
+        message: 'This account is scheduled for deletion. Restore it to sign in again',
+        data: {
+          scheduledPurgeAt: user.scheduledPurgeAt,
+        },
+      });
+      return;
+    }
+
+    // The provider replaces the password, not the second factor
+    if (user.twoFactorEnabled) {
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateChallengeToken(user._id.toString()),
+        },
+      });
+      return;
+    }
+
+    await loginThrottleService.registerSuccess(user.email);
+
+    // Update last active
+    user.lastActive = new Date();
+    await user.save();
+
+    // Start session and generate tokens
+    const { token, refreshToken } = await sessionService.createSession(user, getSessionMeta(req));
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      message: created ? 'Account created successfully' : 'Login successful',
+      data: {
+        token,
+        refreshToken,
+        user: formatLoginUser(user),
+      },
+    });
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('OAuth callback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error signing in with provider',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    List providers linked to the current account
+ * @route   GET /api/auth/identities
+ * @access  Private
+ */
+export const getIdentities = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        identities: currentUser.identities.map((identity) => ({
+          provider: identity.provider,
+          email: identity.email,
+          linkedAt: identity.linkedAt,
+        })),
+        providers: oauthService.getProviders(),
+      },
+    });
+  } catch (error) {
+    console.error('Get identities error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching linked providers',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Start linking a provider to the current account
+ * @route   POST /api/auth/identities/:provider/authorize
+ * @access  Private
+ */
+export const startIdentityLink = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { provider } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const authorizationUrl = await oauthService.createAuthorizationUrl(
+      provider!,
+      'link',
+      currentUser._id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        authorizationUrl,
+      },
+    });
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Identity link authorize error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error starting provider linking',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Complete linking a provider to the current account
+ * @route   POST /api/auth/identities/:provider/callback
+ * @access  Private
+ */
+export const linkIdentity = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { provider } = req.params;
+    const { code, state } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!code || !state) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide the authorization code and state',
+      });
+      return;
+    }
+
+    const profile = await oauthService.handleCallback(
+      provider!,
+      code,
+      state,
+      'link',
+      currentUser._id
+    );
+    await oauthService.linkIdentity(currentUser, profile);
+
+    res.status(200).json({
+      success: true,
+      message: 'Provider linked successfully',
+      data: {
+        provider: profile.provider,
+        email: profile.email,
+      },
+    });
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Link identity error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error linking provider',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Unlink a provider from the current account
+ * @route   DELETE /api/auth/identities/:provider
+ * @access  Private
+ */
+export const unlinkIdentity = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { provider } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const removed = await oauthService.unlinkIdentity(currentUser, provider!);
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        message: 'Provider is not linked to this account',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Provider unlinked successfully',
+    });
+  } catch (error) {
+    console.error('Unlink identity error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error unlinking provider',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Request an email change (takes effect once the new address is confirmed)
+ * @route   POST /api/auth/email/change
+ * @access  Private
+ */
+export const requestEmailChange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { newEmail, password } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!newEmail || !password) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide the new email and your password',
+      });
+      return;
+    }
+
+    if (!isValidEmail(newEmail)) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide a valid email',
+      });
+      return;
+    }
+
+    const normalizedEmail = String(newEmail).trim().toLowerCase();
+
+    // Reload user with password for comparison
+    const user = await User.findById(currentUser._id).select('+password');
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const isPasswordMatch = await user.comparePassword(password);
+    if (!isPasswordMatch) {
+      res.status(401).json({
+        success: false,
+        message: 'Password is incorrect',
+      });
+      return;
+    }
+
+    if (normalizedEmail === user.email) {
+      res.status(400).json({
+        success: false,
+        message: 'New email must be different from the current one',
+      });
+      return;
+    }
+
+    const emailTaken = await User.exists({ email: normalizedEmail });
+    if (emailTaken) {
+      res.status(400).json({
+        success: false,
+        message: 'Email is already in use',
+      });
+      return;
+    }
+
+    const token = user.createEmailChangeToken(normalizedEmail);
+    await user.save();
+
+    await mailService.sendEmailChangeConfirmation(normalizedEmail, token);
+
+    // The notice is informational only - don't fail the request over it
+    try {
+      await mailService.sendEmailChangeNotice(user.email, normalizedEmail);
+    } catch (mailError) {
+      console.error('Email change notice error:', mailError);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Confirmation sent to the new email address',
+      data: {
+        pendingEmail: user.pendingEmail,
+        expiresAt: user.emailChangeExpires,
+      },
+    });
+  } catch (error) {
+    console.error('Request email change error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error requesting email change',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Confirm an email change and reissue tokens for the new address
+ * @route   POST /api/auth/email/confirm
+ * @access  Private
+ */
+export const confirmEmailChange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { token } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!token) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide the confirmation token',
+      });
+      return;
+    }
+
+    const user = await User.findOne({
+      _id: currentUser._id,
+      emailChangeTokenHash: hashToken(String(token)),
+      emailChangeExpires: { $gt: new Date() },
+    });
+
+    if (!user || !user.pendingEmail) {
+      res.status(400).json({
+        success: false,
+        message: 'Confirmation link is invalid or has expired',
+      });
+      return;
+    }
+
+    // Someone may have registered the address since the change was requested
+    const emailTaken = await User.exists({ email: user.pendingEmail, _id: { $ne: user._id } });
+    if (emailTaken) {
+      res.status(400).json({
+        success: false,
+        message: 'Email is already in use',
+      });
+      return;
+    }
+
+    const previousEmail = user.email;
+
+    user.email = user.pendingEmail;
+    user.verified = true;
+    user.pendingEmail = undefined;
+    user.emailChangeTokenHash = undefined;
+    user.emailChangeExpires = undefined;
+    await user.save();
+
+    await loginThrottleService.clearAccount(previousEmail);
+    await magicLinkService.revokeLinks(previousEmail);
+
+    // Access tokens embed the email - hand out a fresh pair for this session,
+    // other devices are asked to refresh by the protect middleware
+    const tokens = await sessionService.reissueTokens(req.sessionId!, user);
+
+    res.status(200).json({
+      success: true,
+      message: 'Email changed successfully',
+      data: {
+        email: user.email,
+        ...(tokens && {
+          token: tokens.token,
+          refreshToken: tokens.refreshToken,
+        }),
+      },
+    });
+  } catch (error) {
+    console.error('Confirm email change error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error confirming email change',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Cancel a pending email change
+ * @route   DELETE /api/auth/email/change
+ * @access  Private
+ */
+export const cancelEmailChange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!currentUser.pendingEmail) {
+      res.status(400).json({
+        success: false,
+        message: 'No email change is pending',
+      });
+      return;
+    }
+
+    currentUser.pendingEmail = undefined;
+    currentUser.emailChangeTokenHash = undefined;
+    currentUser.emailChangeExpires = undefined;
+    await currentUser.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Email change cancelled',
+    });
+  } catch (error) {
+    console.error('Cancel email change error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error cancelling email change',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Get the password requirements (for showing them before submitting)
+ * @route   GET /api/auth/password-policy
+ * @access  Public
+ */
+export const getPasswordPolicyRules = async (_req: Request, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    data: {
+      policy: getPasswordPolicy(),
+    },
+  });
+};
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { Connection } from '@models/Connection';
-import { User, IUser } from '@models/User';
+import { User, IUser, ACTIVE_USER_FILTER } from '@models/User';
+import privacyService from '@services/privacy.service';
 import { socketService } from '../app';
 
 interface AuthenticatedRequest extends Request {
@@ -34,7 +35,7 @@ export const sendConnectionRequest = async (req: AuthenticatedRequest, res: Resp
     }
 
     // Check if receiver exists
-    const receiver = await User.findById(receiverId);
+    const receiver = await User.findOne({ _id: receiverId, ...ACTIVE_USER_FILTER });
     if (!receiver) {
       res.status(404).json({
         success: false,
@@ -69,14 +70,14 @@ export const sendConnectionRequest = async (req: AuthenticatedRequest, res: Resp
 
     // Populate the connection with user details
     await connection.populate([
-      { path: 'participants', select: 'name username email avatar' },
-      { path: 'initiator', select: 'name username email avatar' },
+      { path: 'participants', select: 'name username email avatar privacy' },
+      { path: 'initiator', select: 'name username email avatar privacy' },
     ]);
 
     // Emit Socket.io event to the receiver
     if (socketService) {
       socketService.sendToUser(receiverId, 'connection:new', {
-        connection,
+        connection: privacyService.formatConnection(connection, receiver._id),
         message: 'You have a new connection request',
       });
 
@@ -95,7 +96,7 @@ export const sendConnectionRequest = async (req: AuthenticatedRequest, res: Resp
     res.status(201).json({
       success: true,
       message: 'Connection request sent successfully',
-      data: { connection },
+      data: { connection: privacyService.formatConnection(connection, currentUser._id) },
     });
   } catch (error) {
     console.error('Error sending connection request:', error);
@@ -194,15 +195,15 @@ export const respondToConnectionRequest = async (req: AuthenticatedRequest, res:
 
     // Populate the connection with user details
     await connection.populate([
-      { path: 'participants', select: 'name username email avatar' },
-      { path: 'initiator', select: 'name username email avatar' },
+      { path: 'participants', select: 'name username email avatar privacy' },
+      { path: 'initiator', select: 'name username email avatar privacy' },
     ]);
 
     // Emit Socket.io event to both participants
     if (socketService) {
       connection.participants.forEach((participant) => {
         socketService.sendToUser(participant._id.toString(), 'connection:updated', {
-          connection,
+          connection: privacyService.formatConnection(connection, participant._id),
           message: `Connection ${status}`,
         });
       });
@@ -211,7 +212,7 @@ export const respondToConnectionRequest = async (req: AuthenticatedRequest, res:
     res.status(200).json({
       success: true,
       message: `Connection request ${status} successfully`,
-      data: { connection },
+      data: { connection: privacyService.formatConnection(connection, currentUser._id) },
     });
   } catch (error) {
     console.error('Error responding to connection request:', error);
@@ -260,8 +261,8 @@ export const getUserConnections = async (req: AuthenticatedRequest, res: Respons
     // Get connections with pagination
     const connections = await Connection.find(query)
       .populate([
-        { path: 'participants', select: 'name username email avatar verified' },
-        { path: 'initiator', select: 'name username email avatar' },
+        { path: 'participants', select: 'name username email avatar verified privacy' },
+        { path: 'initiator', select: 'name username email avatar privacy' },
       ])
       .sort({ lastMessageAt: -1, updatedAt: -1 })
       .skip(skip)
@@ -274,7 +275,9 @@ export const getUserConnections = async (req: AuthenticatedRequest, res: Respons
       success: true,
       message: 'Connections retrieved successfully',
       data: {
-        connections,
+        connections: connections.map((connection) =>
+          privacyService.formatConnection(connection, currentUser._id)
+        ),
         pagination: {
           current: pageNum,
           pages: Math.ceil(total / limitNum),
@@ -314,8 +317,8 @@ export const getConnection = async (req: AuthenticatedRequest, res: Response, _n
     // Find the connection
     const connection = await Connection.findById(connectionId)
       .populate([
-        { path: 'participants', select: 'name username email avatar verified' },
-        { path: 'initiator', select: 'name username email avatar' },
+        { path: 'participants', select: 'name username email avatar verified privacy' },
+        { path: 'initiator', select: 'name username email avatar privacy' },
       ]);
 
     if (!connection) {
@@ -338,7 +341,7 @@ export const getConnection = async (req: AuthenticatedRequest, res: Response, _n
     res.status(200).json({
       success: true,
       message: 'Connection retrieved successfully',
-      data: { connection },
+      data: { connection: privacyService.formatConnection(connection, currentUser._id) },
     });
   } catch (error) {
     console.error('Error getting connection:', error);
@@ -0,0 +1,226 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { ACTIVE_USER_FILTER, User } from '@models/User';
+import { ENDORSEMENT_TYPES, EndorsementType, IEndorsement } from '@models/Endorsement';
+import endorsementService, { EndorsementError } from '@services/endorsement.service';
+import { socketService } from '../app';
+
+const formatEndorsement = (endorsement: IEndorsement) => ({
+  id: endorsement._id,
+  uuid: endorsement.uuid,
+  endorseeId: endorsement.endorseeId,
+  type: endorsement.type,
+  name: endorsement.name,
+  createdAt: endorsement.createdAt,
+});
+
+/**
+ * @desc    Endorse a skill or interest of a connection
+ * @route   POST /api/endorsements
+ * @access  Private
+ */
+export const giveEndorsement = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { userId, type, name } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!userId || !name || typeof name !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide userId, type and name',
+      });
+      return;
+    }
+
+    if (!ENDORSEMENT_TYPES.includes(type)) {
+      res.status(400).json({
+        success: false,
+        message: `Type must be one of: ${ENDORSEMENT_TYPES.join(', ')}`,
+      });
+      return;
+    }
+
+    const endorsement = await endorsementService.endorse(
+      currentUser,
+      String(userId),
+      type as EndorsementType,
+      name
+    );
+
+    // Let the endorsed user know in real time
+    if (socketService) {
+      socketService.sendToUser(endorsement.endorseeId.toString(), 'endorsement:new', {
+        endorsement: formatEndorsement(endorsement),
+        endorser: {
+          id: currentUser._id,
+          name: currentUser.name,
+          username: currentUser.username,
+          avatar: currentUser.avatar,
+        },
+        message: `${currentUser.name || currentUser.username || 'A connection'} endorsed you for ${endorsement.name}`,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Endorsement added successfully',
+      data: {
+        endorsement: formatEndorsement(endorsement),
+      },
+    });
+  } catch (error) {
+    if (error instanceof EndorsementError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Error giving endorsement:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add endorsement',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Withdraw an endorsement you gave
+ * @route   DELETE /api/endorsements/:id
+ * @access  Private
+ */
+export const withdrawEndorsement = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const endorsement = await endorsementService.withdraw(currentUser._id, id!);
+
+    if (!endorsement) {
+      res.status(404).json({
+        success: false,
+        message: 'Endorsement not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Endorsement withdrawn successfully',
+    });
+  } catch (error) {
+    console.error('Error withdrawing endorsement:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to withdraw endorsement',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    List endorsements you have given
+ * @route   GET /api/endorsements/given
+ * @access  Private
+ */
+export const getGivenEndorsements = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const endorsements = await endorsementService.listGiven(currentUser._id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        endorsements: endorsements.map((endorsement) => ({
+          ...formatEndorsement(endorsement),
+          endorsee: endorsement.endorseeId,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Error getting given endorsements:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get endorsements',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    List endorsements received by a user, grouped by skill and interest
+ * @route   GET /api/endorsements/user/:userId
+ * @access  Private
+ */
+export const getUserEndorsements = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { userId } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const user = mongoose.Types.ObjectId.isValid(userId!)
+      ? await User.findOne({ _id: userId, ...ACTIVE_USER_FILTER })
+      : null;
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const endorsements = await endorsementService.getSummary(user, currentUser._id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        endorsements,
+        canEndorse:
+          !user._id.equals(currentUser._id) &&
+          (await endorsementService.areConnected(currentUser._id, user._id)),
+      },
+    });
+  } catch (error) {
+    console.error('Error getting user endorsements:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get endorsements',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
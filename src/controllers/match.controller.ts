@@ -1,7 +1,11 @@
 import { Request, Response } from 'express';
-import { User } from '@models/User';
+import { User, ACTIVE_USER_FILTER, DISCOVERABLE_USER_FILTER } from '@models/User';
 import { Connection } from '@models/Connection';
 import aiService from '@services/ai.service';
+import endorsementService from '@services/endorsement.service';
+import recommendationService from '@services/recommendation.service';
+import privacyService from '@services/privacy.service';
+import profileViewService from '@services/profileView.service';
 
 /**
  * @desc    Get AI-powered user matches
@@ -38,8 +42,12 @@ export const getMatches = async (req: Request, res: Response): Promise<void> =>
         $nin: connectedUserIds // Exclude users with existing connections
       },
       verified: true, // Only match with verified users
+      ...DISCOVERABLE_USER_FILTER,
     }).select('-password -aiEmbedding'); // Exclude sensitive data
 
+    // Candidates are not connected yet - only their public fields reach the AI and the response
+    otherUsers.forEach((user) => privacyService.redact(user, 'other'));
+
     if (otherUsers.length === 0) {
       res.status(200).json({
         success: true,
@@ -94,7 +102,7 @@ export const generateConnectionMessage = async (req: Request, res: Response): Pr
     }
 
     // Find target user
-    const targetUser = await User.findById(userId).select('-password -aiEmbedding');
+    const targetUser = await User.findOne({ _id: userId, ...ACTIVE_USER_FILTER }).select('-password -aiEmbedding');
     if (!targetUser) {
       res.status(404).json({
         success: false,
@@ -133,16 +141,29 @@ export const generateConnectionMessage = async (req: Request, res: Response): Pr
 };
 
 /**
- * @desc    Get user profile for matching (public info only)
+ * @desc    Get user profile for matching (public info only) and record the view.
+ *          Pass ?source=match|chatbot|search|direct to say where it was opened from.
  * @route   GET /api/match-users/profile/:userId
  * @access  Private
  */
 export const getUserProfile = async (req: Request, res: Response): Promise<void> => {
   try {
+    const currentUser = req.user;
     const { userId } = req.params;
 
-    const user = await User.findById(userId).select('-password -aiEmbedding -email');
-    if (!user) {
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const user = await User.findOne({ _id: userId, ...ACTIVE_USER_FILTER }).select('-password -aiEmbedding');
+    const relation = user ? await privacyService.getRelation(currentUser._id, user._id) : 'other';
+
+    // Hidden profiles are only visible to their connections
+    if (!user || !privacyService.isDiscoverable(user, relation)) {
       res.status(404).json({
         success: false,
         message: 'User not found',
@@ -150,6 +171,16 @@ export const getUserProfile = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    privacyService.redact(user, relation);
+    profileViewService.track(
+      currentUser._id,
+      user._id,
+      profileViewService.parseSource(req.query.source)
+    );
+
+    // Only recommendations the user approved are shown
+    const recommendations = await recommendationService.getPublicRecommendations(user._id);
+
     res.status(200).json({
       success: true,
       data: {
@@ -158,9 +189,35 @@ export const getUserProfile = async (req: Request, res: Response): Promise<void>
           uuid: user.uuid,
           username: user.username,
           name: user.name,
+          email: user.email,
+          phone: user.phone,
           profession: user.profession,
           bio: user.bio,
           interests: user.interests,
+          experience: user.experience.map((job) => ({
+            company: job.company,
+            title: job.title,
+            location: job.location,
+            startDate: job.startDate,
+            endDate: job.endDate,
+            current: job.current,
+          })),
+          education: user.education.map((entry) => ({
+            school: entry.school,
+            degree: entry.degree,
+            fieldOfStudy: entry.fieldOfStudy,
+            startDate: entry.startDate,
+            endDate: entry.endDate,
+          })),
+          skills: user.skills.map((skill) => ({ name: skill.name, level: skill.level })),
+          endorsements: await endorsementService.getCounts(user),
+          recommendations: recommendations.map((recommendation) => ({
+            id: recommendation._id,
+            author: recommendation.authorId,
+            relationship: recommendation.relationship,
+            content: recommendation.content,
+            approvedAt: recommendation.approvedAt,
+          })),
           avatar: user.avatar,
           verified: user.verified,
           createdAt: user.createdAt,
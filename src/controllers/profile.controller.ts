@@ -0,0 +1,1071 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { config } from '@config/env';
+import {
+  Education,
+  IUser,
+  LOCATION_PRECISIONS,
+  LocationPrecision,
+  PRIVACY_FIELDS,
+  PrivacySettings,
+  Skill,
+  SKILL_LEVELS,
+  SkillLevel,
+  VISIBILITY_LEVELS,
+  VisibilityLevel,
+  WorkExperience,
+} from '@models/User';
+import avatarService, { AvatarError } from '@services/avatar.service';
+import profileViewService from '@services/profileView.service';
+import tagService from '@services/tag.service';
+import locationService from '@services/location.service';
+
+// Upper bound for entries in each profile section
+const MAX_SECTION_ENTRIES = 50;
+
+// On/off privacy settings
+const PRIVACY_FLAGS = ['hiddenFromDiscovery', 'anonymousProfileViews', 'shareLocation'] as const;
+
+type Fields = Record<string, unknown>;
+
+interface ParseResult<T> {
+  fields?: T;
+  error?: string;
+}
+
+type ExperienceFields = Omit<WorkExperience, '_id'>;
+type EducationFields = Omit<Education, '_id'>;
+type SkillFields = Omit<Skill, '_id'>;
+
+/**
+ * Read an optional trimmed string, reporting values that are too long
+ */
+const readString = (
+  value: unknown,
+  label: string,
+  maxLength: number
+): { value?: string; error?: string } => {
+  if (value === undefined || value === null || value === '') return {};
+  if (typeof value !== 'string') return { error: `${label} must be a string` };
+
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    return { error: `${label} cannot exceed ${maxLength} characters` };
+  }
+
+  return { value: trimmed || undefined };
+};
+
+/**
+ * Read an optional date, reporting values that cannot be parsed
+ */
+const readDate = (value: unknown, label: string): { value?: Date; error?: string } => {
+  if (value === undefined || value === null || value === '') return {};
+
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) {
+    return { error: `${label} must be a valid date` };
+  }
+
+  return { value: date };
+};
+
+/**
+ * Validate a work experience entry; `existing` holds the current values for updates
+ */
+const parseExperience = (body: Fields, existing?: ExperienceFields): ParseResult<ExperienceFields> => {
+  const merged: Fields = { ...existing, ...body };
+  const current = merged.current === true || merged.current === 'true';
+
+  // Marking a position as current drops the stored end date
+  if (current && body.endDate === undefined) {
+    merged.endDate = undefined;
+  }
+
+  const company = readString(merged.company, 'Company', 100);
+  const title = readString(merged.title, 'Title', 100);
+  const location = readString(merged.location, 'Location', 100);
+  const description = readString(merged.description, 'Description', 1000);
+  const startDate = readDate(merged.startDate, 'Start date');
+  const endDate = readDate(merged.endDate, 'End date');
+
+  const error = [company, title, location, description, startDate, endDate].find(
+    (field) => field.error
+  )?.error;
+  if (error) return { error };
+
+  if (!company.value || !title.value || !startDate.value) {
+    return { error: 'Please provide company, title and start date' };
+  }
+
+  if (current && endDate.value) {
+    return { error: 'A current position cannot have an end date' };
+  }
+
+  if (endDate.value && endDate.value < startDate.value) {
+    return { error: 'End date cannot be before the start date' };
+  }
+
+  return {
+    fields: {
+      company: company.value,
+      title: title.value,
+      location: location.value,
+      description: description.value,
+      startDate: startDate.value,
+      endDate: endDate.value,
+      current,
+    },
+  };
+};
+
+/**
+ * Validate an education entry; `existing` holds the current values for updates
+ */
+const parseEducation = (body: Fields, existing?: EducationFields): ParseResult<EducationFields> => {
+  const merged: Fields = { ...existing, ...body };
+
+  const school = readString(merged.school, 'School', 100);
+  const degree = readString(merged.degree, 'Degree', 100);
+  const fieldOfStudy = readString(merged.fieldOfStudy, 'Field of study', 100);
+  const description = readString(merged.description, 'Description', 1000);
+  const startDate = readDate(merged.startDate, 'Start date');
+  const endDate = readDate(merged.endDate, 'End date');
+
+  const error = [school, degree, fieldOfStudy, description, startDate, endDate].find(
+    (field) => field.error
+  )?.error;
+  if (error) return { error };
+
+  if (!school.value) {
+    return { error: 'Please provide a school' };
+  }
+
+  if (startDate.value && endDate.value && endDate.value < startDate.value) {
+    return { error: 'End date cannot be before the start date' };
+  }
+
+  return {
+    fields: {
+      school: school.value,
+      degree: degree.value,
+      fieldOfStudy: fieldOfStudy.value,
+      description: description.value,
+      startDate: startDate.value,
+      endDate: endDate.value,
+    },
+  };
+};
+
+/**
+ * Validate a skill; `existing` holds the current values for updates
+ */
+const parseSkill = (body: Fields, existing?: SkillFields): ParseResult<SkillFields> => {
+  const merged: Fields = { ...existing, ...body };
+
+  const name = readString(merged.name, 'Skill name', 50);
+  if (name.error) return { error: name.error };
+
+  if (!name.value) {
+    return { error: 'Please provide a skill name' };
+  }
+
+  const level = (merged.level ?? 'intermediate') as SkillLevel;
+  if (!SKILL_LEVELS.includes(level)) {
+    return { error: `Level must be one of: ${SKILL_LEVELS.join(', ')}` };
+  }
+
+  return { fields: { name: name.value, level } };
+};
+
+/**
+ * Current positions first, then most recent start date
+ */
+const sortExperience = (user: IUser): void => {
+  user.experience.sort((a, b) => {
+    if (a.current !== b.current) return a.current ? -1 : 1;
+    return new Date(b.startDate).getTime() - new Date(a.startDate).getTime();
+  });
+};
+
+const sortEducation = (user: IUser): void => {
+  user.education.sort(
+    (a, b) => new Date(b.startDate || 0).getTime() - new Date(a.startDate || 0).getTime()
+  );
+};
+
+const findEntry = <T extends { _id: mongoose.Types.ObjectId }>(entries: T[], id?: string) =>
+  id && mongoose.Types.ObjectId.isValid(id) ? entries.find((entry) => entry._id.equals(id)) : undefined;
+
+const hasSkill = (user: IUser, name: string, exceptId?: mongoose.Types.ObjectId): boolean =>
+  user.skills.some(
+    (skill) =>
+      skill.name.toLowerCase() === name.toLowerCase() && (!exceptId || !skill._id.equals(exceptId))
+  );
+
+const formatExperience = (entry: WorkExperience) => ({
+  id: entry._id,
+  company: entry.company,
+  title: entry.title,
+  location: entry.location,
+  description: entry.description,
+  startDate: entry.startDate,
+  endDate: entry.endDate,
+  current: entry.current,
+});
+
+const formatEducation = (entry: Education) => ({
+  id: entry._id,
+  school: entry.school,
+  degree: entry.degree,
+  fieldOfStudy: entry.fieldOfStudy,
+  description: entry.description,
+  startDate: entry.startDate,
+  endDate: entry.endDate,
+});
+
+const formatSkill = (entry: Skill) => ({
+  id: entry._id,
+  name: entry.name,
+  level: entry.level,
+});
+
+const formatPrivacy = (privacy: PrivacySettings) => ({
+  phone: privacy.phone,
+  email: privacy.email,
+  bio: privacy.bio,
+  interests: privacy.interests,
+  experience: privacy.experience,
+  hiddenFromDiscovery: privacy.hiddenFromDiscovery,
+  anonymousProfileViews: privacy.anonymousProfileViews,
+  shareLocation: privacy.shareLocation,
+  locationPrecision: privacy.locationPrecision,
+});
+
+/**
+ * @desc    Get structured profile (experience, education and skills)
+ * @route   GET /api/profile
+ * @access  Private
+ */
+export const getProfile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        experience: currentUser.experience.map(formatExperience),
+        education: currentUser.education.map(formatEducation),
+        skills: currentUser.skills.map(formatSkill),
+      },
+    });
+  } catch (error) {
+    console.error('Get profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching profile',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Add a work experience entry
+ * @route   POST /api/profile/experience
+ * @access  Private
+ */
+export const addExperience = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (currentUser.experience.length >= MAX_SECTION_ENTRIES) {
+      res.status(400).json({
+        success: false,
+        message: `You can add up to ${MAX_SECTION_ENTRIES} experience entries`,
+      });
+      return;
+    }
+
+    const { fields, error } = parseExperience(req.body || {});
+
+    if (!fields) {
+      res.status(400).json({
+        success: false,
+        message: error,
+      });
+      return;
+    }
+
+    currentUser.experience.push(fields as WorkExperience);
+    const entry = currentUser.experience[currentUser.experience.length - 1]!;
+    sortExperience(currentUser);
+    await currentUser.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Experience added successfully',
+      data: {
+        experience: formatExperience(entry),
+      },
+    });
+  } catch (error) {
+    console.error('Add experience error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error adding experience',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Update a work experience entry
+ * @route   PUT /api/profile/experience/:id
+ * @access  Private
+ */
+export const updateExperience = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const entry = findEntry(currentUser.experience, req.params.id);
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        message: 'Experience entry not found',
+      });
+      return;
+    }
+
+    const { fields, error } = parseExperience(req.body || {}, formatExperience(entry));
+
+    if (!fields) {
+      res.status(400).json({
+        success: false,
+        message: error,
+      });
+      return;
+    }
+
+    Object.assign(entry, fields);
+    sortExperience(currentUser);
+    await currentUser.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Experience updated successfully',
+      data: {
+        experience: formatExperience(entry),
+      },
+    });
+  } catch (error) {
+    console.error('Update experience error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating experience',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Remove a work experience entry
+ * @route   DELETE /api/profile/experience/:id
+ * @access  Private
+ */
+export const deleteExperience = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const entry = findEntry(currentUser.experience, req.params.id);
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        message: 'Experience entry not found',
+      });
+      return;
+    }
+
+    currentUser.experience = currentUser.experience.filter((item) => !item._id.equals(entry._id));
+    await currentUser.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Experience removed successfully',
+    });
+  } catch (error) {
+    console.error('Delete experience error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing experience',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Add an education entry
+ * @route   POST /api/profile/education
+ * @access  Private
+ */
+export const addEducation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (currentUser.education.length >= MAX_SECTION_ENTRIES) {
+      res.status(400).json({
+        success: false,
+        message: `You can add up to ${MAX_SECTION_ENTRIES} education entries`,
+      });
+      return;
+    }
+
+    const { fields, error } = parseEducation(req.body || {});
+
+    if (!fields) {
+      res.status(400).json({
+        success: false,
+        message: error,
+      });
+      return;
+    }
+
+    currentUser.education.push(fields as Education);
+    const entry = currentUser.education[currentUser.education.length - 1]!;
+    sortEducation(currentUser);
+    await currentUser.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Education added successfully',
+      data: {
+        education: formatEducation(entry),
+      },
+    });
+  } catch (error) {
+    console.error('Add education error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error adding education',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Update an education entry
+ * @route   PUT /api/profile/education/:id
+ * @access  Private
+ */
+export const updateEducation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const entry = findEntry(currentUser.education, req.params.id);
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        message: 'Education entry not found',
+      });
+      return;
+    }
+
+    const { fields, error } = parseEducation(req.body || {}, formatEducation(entry));
+
+    if (!fields) {
+      res.status(400).json({
+        success: false,
+        message: error,
+      });
+      return;
+    }
+
+    Object.assign(entry, fields);
+    sortEducation(currentUser);
+    await currentUser.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Education updated successfully',
+      data: {
+        education: formatEducation(entry),
+      },
+    });
+  } catch (error) {
+    console.error('Update education error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating education',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Remove an education entry
+ * @route   DELETE /api/profile/education/:id
+ * @access  Private
+ */
+export const deleteEducation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const entry = findEntry(currentUser.education, req.params.id);
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        message: 'Education entry not found',
+      });
+      return;
+    }
+
+    currentUser.education = currentUser.education.filter((item) => !item._id.equals(entry._id));
+    await currentUser.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Education removed successfully',
+    });
+  } catch (error) {
+    console.error('Delete education error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing education',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Add a skill
+ * @route   POST /api/profile/skills
+ * @access  Private
+ */
+export const addSkill = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (currentUser.skills.length >= MAX_SECTION_ENTRIES) {
+      res.status(400).json({
+        success: false,
+        message: `You can add up to ${MAX_SECTION_ENTRIES} skills`,
+      });
+      return;
+    }
+
+    const { fields, error } = parseSkill(req.body || {});
+
+    if (!fields) {
+      res.status(400).json({
+        success: false,
+        message: error,
+      });
+      return;
+    }
+
+    fields.name = await tagService.canonicalName(fields.name);
+
+    if (hasSkill(currentUser, fields.name)) {
+      res.status(409).json({
+        success: false,
+        message: 'Skill already added',
+      });
+      return;
+    }
+
+    currentUser.skills.push(fields as Skill);
+    const entry = currentUser.skills[currentUser.skills.length - 1]!;
+    await currentUser.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Skill added successfully',
+      data: {
+        skill: formatSkill(entry),
+      },
+    });
+  } catch (error) {
+    console.error('Add skill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error adding skill',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Update a skill (name or level)
+ * @route   PUT /api/profile/skills/:id
+ * @access  Private
+ */
+export const updateSkill = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const entry = findEntry(currentUser.skills, req.params.id);
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        message: 'Skill not found',
+      });
+      return;
+    }
+
+    const { fields, error } = parseSkill(req.body || {}, formatSkill(entry));
+
+    if (!fields) {
+      res.status(400).json({
+        success: false,
+        message: error,
+      });
+      return;
+    }
+
+    fields.name = await tagService.canonicalName(fields.name);
+
+    if (hasSkill(currentUser, fields.name, entry._id)) {
+      res.status(409).json({
+        success: false,
+        message: 'Skill already added',
+      });
+      return;
+    }
+
+    Object.assign(entry, fields);
+    await currentUser.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Skill updated successfully',
+      data: {
+        skill: formatSkill(entry),
+      },
+    });
+  } catch (error) {
+    console.error('Update skill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating skill',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Remove a skill
+ * @route   DELETE /api/profile/skills/:id
+ * @access  Private
+ */
+export const deleteSkill = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const entry = findEntry(currentUser.skills, req.params.id);
+
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        message: 'Skill not found',
+      });
+      return;
+    }
+
+    currentUser.skills = currentUser.skills.filter((item) => !item._id.equals(entry._id));
+    await currentUser.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Skill removed successfully',
+    });
+  } catch (error) {
+    console.error('Delete skill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing skill',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Get privacy settings
+ * @route   GET /api/profile/privacy
+ * @access  Private
+ */
+export const getPrivacySettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        privacy: formatPrivacy(currentUser.privacy),
+        visibilityLevels: VISIBILITY_LEVELS,
+      },
+    });
+  } catch (error) {
+    console.error('Get privacy settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching privacy settings',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Update privacy settings (partial)
+ * @route   PUT /api/profile/privacy
+ * @access  Private
+ */
+export const updatePrivacySettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const body = (req.body || {}) as Fields;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const invalidField = PRIVACY_FIELDS.find(
+      (field) => body[field] !== undefined && !VISIBILITY_LEVELS.includes(body[field] as VisibilityLevel)
+    );
+
+    if (invalidField) {
+      res.status(400).json({
+        success: false,
+        message: `${invalidField} must be one of: ${VISIBILITY_LEVELS.join(', ')}`,
+      });
+      return;
+    }
+
+    const invalidFlag = PRIVACY_FLAGS.find(
+      (flag) => body[flag] !== undefined && typeof body[flag] !== 'boolean'
+    );
+
+    if (invalidFlag) {
+      res.status(400).json({
+        success: false,
+        message: `${invalidFlag} must be true or false`,
+      });
+      return;
+    }
+
+    if (
+      body.locationPrecision !== undefined &&
+      !LOCATION_PRECISIONS.includes(body.locationPrecision as LocationPrecision)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `locationPrecision must be one of: ${LOCATION_PRECISIONS.join(', ')}`,
+      });
+      return;
+    }
+
+    const precisionChanged =
+      body.locationPrecision !== undefined &&
+      body.locationPrecision !== currentUser.privacy.locationPrecision;
+
+    PRIVACY_FIELDS.forEach((field) => {
+      if (body[field] !== undefined) {
+        currentUser.privacy[field] = body[field] as VisibilityLevel;
+      }
+    });
+    PRIVACY_FLAGS.forEach((flag) => {
+      if (body[flag] !== undefined) {
+        currentUser.privacy[flag] = body[flag] as boolean;
+      }
+    });
+    if (body.locationPrecision !== undefined) {
+      currentUser.privacy.locationPrecision = body.locationPrecision as LocationPrecision;
+    }
+
+    await currentUser.save();
+
+    // The stored location was rounded for the old setting - wait for a new one
+    if (!currentUser.privacy.shareLocation || precisionChanged) {
+      await locationService.clear(currentUser._id);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Privacy settings updated successfully',
+      data: {
+        privacy: formatPrivacy(currentUser.privacy),
+      },
+    });
+  } catch (error) {
+    console.error('Update privacy settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating privacy settings',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Get avatar and its thumbnail URLs
+ * @route   GET /api/profile/avatar
+ * @access  Private
+ */
+export const getAvatar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        avatar: currentUser.avatar,
+        // Null when the avatar is an external URL
+        thumbnails: await avatarService.getUserUrls(currentUser._id),
+      },
+    });
+  } catch (error) {
+    console.error('Get avatar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching avatar',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Upload avatar image (multipart field "avatar"), replacing the previous one
+ * @route   POST /api/profile/avatar
+ * @access  Private
+ */
+export const uploadAvatar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'Please upload an image in the "avatar" field',
+      });
+      return;
+    }
+
+    const thumbnails = await avatarService.upload(currentUser, req.file.buffer);
+
+    res.status(200).json({
+      success: true,
+      message: 'Avatar updated successfully',
+      data: {
+        avatar: currentUser.avatar,
+        thumbnails,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AvatarError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Upload avatar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error uploading avatar',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Remove avatar (uploaded files are deleted)
+ * @route   DELETE /api/profile/avatar
+ * @access  Private
+ */
+export const deleteAvatar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    await avatarService.remove(currentUser);
+
+    res.status(200).json({
+      success: true,
+      message: 'Avatar removed successfully',
+    });
+  } catch (error) {
+    console.error('Delete avatar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing avatar',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Who viewed my profile: recent viewers and view counts
+ * @route   GET /api/profile/views?days=30&limit=20
+ * @access  Private
+ */
+export const getProfileViews = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const days = Math.min(
+      Math.max(parseInt(req.query.days as string) || 30, 1),
+      config.PROFILE_VIEW_RETENTION_DAYS
+    );
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    const { viewers, anonymousViewers } = await profileViewService.getRecentViewers(
+      currentUser._id,
+      days,
+      limit
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        days,
+        viewers,
+        anonymousViewers,
+        counts: await profileViewService.getCounts(currentUser._id),
+      },
+    });
+  } catch (error) {
+    console.error('Get profile views error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching profile views',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
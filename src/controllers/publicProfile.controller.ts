@@ -0,0 +1,171 @@
+import { NextFunction, Request, Response } from 'express';
+import { config } from '@config/env';
+import publicProfileService, { QR_FORMATS, QrFormat } from '@services/publicProfile.service';
+
+// Images on the page may come from the storage bucket or an external avatar URL
+const PAGE_CONTENT_SECURITY_POLICY =
+  "default-src 'none'; img-src 'self' https: data:; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'";
+
+const MIN_QR_SIZE = 128;
+const MAX_QR_SIZE = 1024;
+const DEFAULT_QR_SIZE = 300;
+
+/**
+ * Links are only built from configuration: a forged Host header would
+ * otherwise end up in cached pages, vCards and QR codes
+ */
+export const requirePublicUrl = (_req: Request, res: Response, next: NextFunction): void => {
+  if (!config.PUBLIC_URL) {
+    console.error('Public profiles need PUBLIC_URL or APP_URL to be set');
+    res.status(503).json({
+      success: false,
+      message: 'Public profiles are not available',
+    });
+    return;
+  }
+  next();
+};
+
+/**
+ * @desc    Public profile page (HTML), or JSON with ?format=json or Accept: application/json.
+ *          Only fields marked public are shown.
+ * @route   GET /u/:username
+ * @access  Public
+ */
+export const getPublicProfile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username } = req.params;
+    const wantsJson = req.query.format === 'json' || req.accepts(['html', 'json']) === 'json';
+
+    const user = await publicProfileService.findByUsername(username!);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Profile not found',
+      });
+      return;
+    }
+
+    const baseUrl = config.PUBLIC_URL;
+    const links = publicProfileService.getLinks(user, baseUrl);
+
+    // Privacy changes should show up quickly
+    res.setHeader('Cache-Control', 'public, max-age=60');
+    res.vary('Accept');
+
+    if (wantsJson) {
+      res.status(200).json({
+        success: true,
+        data: {
+          profile: publicProfileService.toJson(user, links, baseUrl),
+        },
+      });
+      return;
+    }
+
+    res
+      .status(200)
+      .setHeader('Content-Type', 'text/html; charset=utf-8')
+      .setHeader('Content-Security-Policy', PAGE_CONTENT_SECURITY_POLICY)
+      .send(publicProfileService.renderHtml(user, links, baseUrl));
+  } catch (error) {
+    console.error('Get public profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching profile',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Download the public profile as a vCard 4.0 contact
+ * @route   GET /u/:username/vcard
+ * @access  Public
+ */
+export const getPublicProfileVCard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username } = req.params;
+
+    const user = await publicProfileService.findByUsername(username!);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Profile not found',
+      });
+      return;
+    }
+
+    const baseUrl = config.PUBLIC_URL;
+    const links = publicProfileService.getLinks(user, baseUrl);
+
+    res
+      .status(200)
+      .setHeader('Content-Type', 'text/vcard; charset=utf-8')
+      .setHeader('Content-Disposition', `attachment; filename="${user.username}.vcf"`)
+      .setHeader('Cache-Control', 'public, max-age=60')
+      .send(publicProfileService.toVCard(user, links, baseUrl));
+  } catch (error) {
+    console.error('Get vCard error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error generating contact card',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    QR code linking to the public profile (?format=png|svg&size=300)
+ * @route   GET /u/:username/qr
+ * @access  Public
+ */
+export const getPublicProfileQr = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username } = req.params;
+    const format = (req.query.format || 'png') as QrFormat;
+    const size = Math.min(
+      Math.max(parseInt(req.query.size as string) || DEFAULT_QR_SIZE, MIN_QR_SIZE),
+      MAX_QR_SIZE
+    );
+
+    if (!QR_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        message: `format must be one of: ${QR_FORMATS.join(', ')}`,
+      });
+      return;
+    }
+
+    const user = await publicProfileService.findByUsername(username!);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Profile not found',
+      });
+      return;
+    }
+
+    const { profileUrl } = publicProfileService.getLinks(user, config.PUBLIC_URL);
+    const image = await publicProfileService.createQrCode(profileUrl, format, size);
+
+    res
+      .status(200)
+      .setHeader('Content-Type', format === 'svg' ? 'image/svg+xml' : 'image/png')
+      // The code only depends on the username
+      .setHeader('Cache-Control', 'public, max-age=86400')
+      // Let the web app on another origin display it
+      .setHeader('Cross-Origin-Resource-Policy', 'cross-origin')
+      .send(image);
+  } catch (error) {
+    console.error('Get QR code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error generating QR code',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
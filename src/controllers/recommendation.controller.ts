@@ -0,0 +1,627 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { ACTIVE_USER_FILTER, User } from '@models/User';
+import { IRecommendation } from '@models/Recommendation';
+import recommendationService, {
+  MODERATION_ACTIONS,
+  ModerationAction,
+  RecommendationError,
+} from '@services/recommendation.service';
+import { socketService } from '../app';
+
+/**
+ * Recommendation as seen by its author or recipient
+ */
+const formatRecommendation = (recommendation: IRecommendation) => ({
+  id: recommendation._id,
+  uuid: recommendation.uuid,
+  author: recommendation.authorId,
+  recipient: recommendation.recipientId,
+  status: recommendation.status,
+  requestMessage: recommendation.requestMessage,
+  relationship: recommendation.relationship,
+  content: recommendation.content,
+  edited: recommendation.history.length > 0,
+  writtenAt: recommendation.writtenAt,
+  approvedAt: recommendation.approvedAt,
+  removed: Boolean(recommendation.removedAt),
+  removalReason: recommendation.removalReason,
+  createdAt: recommendation.createdAt,
+  updatedAt: recommendation.updatedAt,
+});
+
+/**
+ * Recommendation as shown on a profile
+ */
+const formatPublicRecommendation = (recommendation: IRecommendation) => ({
+  id: recommendation._id,
+  author: recommendation.authorId,
+  relationship: recommendation.relationship,
+  content: recommendation.content,
+  edited: recommendation.history.length > 0,
+  approvedAt: recommendation.approvedAt,
+});
+
+/**
+ * Send a real-time notification about a recommendation
+ */
+const notify = (
+  userId: mongoose.Types.ObjectId,
+  event: string,
+  recommendation: IRecommendation,
+  message: string
+): void => {
+  if (socketService) {
+    socketService.sendToUser(userId.toString(), event, {
+      recommendation: formatRecommendation(recommendation),
+      message,
+    });
+  }
+};
+
+const handleError = (res: Response, error: unknown, message: string): void => {
+  if (error instanceof RecommendationError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+    return;
+  }
+
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+};
+
+/**
+ * @desc    Ask a connection to write you a recommendation
+ * @route   POST /api/recommendations/request
+ * @access  Private
+ */
+export const requestRecommendation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { userId, message } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!userId) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide the userId to ask',
+      });
+      return;
+    }
+
+    if (message !== undefined && (typeof message !== 'string' || message.length > 500)) {
+      res.status(400).json({
+        success: false,
+        message: 'Message cannot exceed 500 characters',
+      });
+      return;
+    }
+
+    const recommendation = await recommendationService.requestRecommendation(
+      currentUser,
+      String(userId),
+      message
+    );
+
+    notify(
+      recommendation.authorId,
+      'recommendation:requested',
+      recommendation,
+      `${currentUser.name || currentUser.username || 'A connection'} asked you for a recommendation`
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Recommendation requested successfully',
+      data: {
+        recommendation: formatRecommendation(recommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to request recommendation');
+  }
+};
+
+/**
+ * @desc    Write a recommendation for a connection
+ * @route   POST /api/recommendations
+ * @access  Private
+ */
+export const writeRecommendation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { userId, content, relationship } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!userId) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide the userId to recommend',
+      });
+      return;
+    }
+
+    const recommendation = await recommendationService.writeRecommendation(
+      currentUser,
+      String(userId),
+      { content, relationship }
+    );
+
+    notify(
+      recommendation.recipientId,
+      'recommendation:received',
+      recommendation,
+      `${currentUser.name || currentUser.username || 'A connection'} wrote you a recommendation`
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Recommendation sent for approval',
+      data: {
+        recommendation: formatRecommendation(recommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to write recommendation');
+  }
+};
+
+/**
+ * @desc    Edit a recommendation you wrote (needs approval again)
+ * @route   PUT /api/recommendations/:id
+ * @access  Private
+ */
+export const updateRecommendation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+    const { content, relationship } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const recommendation = await recommendationService.editRecommendation(currentUser, id!, {
+      content,
+      relationship,
+    });
+
+    notify(
+      recommendation.recipientId,
+      'recommendation:updated',
+      recommendation,
+      `${currentUser.name || currentUser.username || 'A connection'} updated their recommendation`
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Recommendation updated and sent for approval',
+      data: {
+        recommendation: formatRecommendation(recommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to update recommendation');
+  }
+};
+
+/**
+ * @desc    Decline a recommendation request
+ * @route   PUT /api/recommendations/:id/decline
+ * @access  Private
+ */
+export const declineRecommendationRequest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const recommendation = await recommendationService.declineRequest(currentUser, id!);
+
+    notify(
+      recommendation.recipientId,
+      'recommendation:declined',
+      recommendation,
+      'Your recommendation request was declined'
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Recommendation request declined',
+      data: {
+        recommendation: formatRecommendation(recommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to decline recommendation request');
+  }
+};
+
+/**
+ * @desc    Show a received recommendation on your profile
+ * @route   PUT /api/recommendations/:id/approve
+ * @access  Private
+ */
+export const approveRecommendation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const recommendation = await recommendationService.setVisibility(currentUser, id!, true);
+
+    notify(
+      recommendation.authorId,
+      'recommendation:approved',
+      recommendation,
+      `${currentUser.name || currentUser.username || 'A connection'} added your recommendation to their profile`
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Recommendation is now visible on your profile',
+      data: {
+        recommendation: formatRecommendation(recommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to approve recommendation');
+  }
+};
+
+/**
+ * @desc    Hide a received recommendation from your profile
+ * @route   PUT /api/recommendations/:id/hide
+ * @access  Private
+ */
+export const hideRecommendation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const recommendation = await recommendationService.setVisibility(currentUser, id!, false);
+
+    res.status(200).json({
+      success: true,
+      message: 'Recommendation hidden from your profile',
+      data: {
+        recommendation: formatRecommendation(recommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to hide recommendation');
+  }
+};
+
+/**
+ * @desc    Delete a recommendation you wrote or received
+ * @route   DELETE /api/recommendations/:id
+ * @access  Private
+ */
+export const deleteRecommendation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    await recommendationService.deleteRecommendation(currentUser, id!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Recommendation deleted successfully',
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete recommendation');
+  }
+};
+
+/**
+ * @desc    List recommendations you received (all statuses)
+ * @route   GET /api/recommendations/received
+ * @access  Private
+ */
+export const getReceivedRecommendations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const recommendations = await recommendationService.listReceived(currentUser._id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        recommendations: recommendations.map(formatRecommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to get recommendations');
+  }
+};
+
+/**
+ * @desc    List recommendations you wrote or were asked to write
+ * @route   GET /api/recommendations/given
+ * @access  Private
+ */
+export const getGivenRecommendations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const recommendations = await recommendationService.listGiven(currentUser._id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        recommendations: recommendations.map(formatRecommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to get recommendations');
+  }
+};
+
+/**
+ * @desc    List the recommendations shown on a user's profile
+ * @route   GET /api/recommendations/user/:userId
+ * @access  Private
+ */
+export const getUserRecommendations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    const user = mongoose.Types.ObjectId.isValid(userId!)
+      ? await User.exists({ _id: userId, ...ACTIVE_USER_FILTER })
+      : null;
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const recommendations = await recommendationService.getPublicRecommendations(user._id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        recommendations: recommendations.map(formatPublicRecommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to get recommendations');
+  }
+};
+
+/**
+ * @desc    Get the edit history of a recommendation you wrote or received
+ * @route   GET /api/recommendations/:id/history
+ * @access  Private
+ */
+export const getRecommendationHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const recommendation = await recommendationService.getForParticipant(currentUser, id!);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        current: {
+          content: recommendation.content,
+          relationship: recommendation.relationship,
+        },
+        history: [...recommendation.history].reverse(),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to get recommendation history');
+  }
+};
+
+/**
+ * @desc    Report a recommendation to the moderators
+ * @route   POST /api/recommendations/:id/report
+ * @access  Private
+ */
+export const reportRecommendation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!reason || typeof reason !== 'string' || !reason.trim() || reason.length > 500) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide a reason (up to 500 characters)',
+      });
+      return;
+    }
+
+    await recommendationService.report(currentUser, id!, reason);
+
+    res.status(200).json({
+      success: true,
+      message: 'Thanks, a moderator will review this recommendation',
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to report recommendation');
+  }
+};
+
+/**
+ * @desc    List flagged recommendations
+ * @route   GET /api/recommendations/moderation
+ * @access  Private (Moderator/Admin)
+ */
+export const getFlaggedRecommendations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    const { items, total } = await recommendationService.listFlagged(page, limit);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        recommendations: items.map((recommendation) => ({
+          ...formatRecommendation(recommendation),
+          flagReason: recommendation.flagReason,
+          reports: recommendation.reports,
+          history: recommendation.history,
+        })),
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total,
+          limit,
+        },
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to get flagged recommendations');
+  }
+};
+
+/**
+ * @desc    Remove, restore or dismiss reports on a recommendation
+ * @route   PUT /api/recommendations/:id/moderate
+ * @access  Private (Moderator/Admin)
+ */
+export const moderateRecommendation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { id } = req.params;
+    const { action, reason } = req.body;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    if (!MODERATION_ACTIONS.includes(action)) {
+      res.status(400).json({
+        success: false,
+        message: `Action must be one of: ${MODERATION_ACTIONS.join(', ')}`,
+      });
+      return;
+    }
+
+    const recommendation = await recommendationService.moderate(
+      currentUser,
+      id!,
+      action as ModerationAction,
+      typeof reason === 'string' ? reason : undefined
+    );
+
+    if (action === 'remove') {
+      [recommendation.authorId, recommendation.recipientId].forEach((userId) =>
+        notify(
+          userId,
+          'recommendation:removed',
+          recommendation,
+          'A recommendation was removed by a moderator'
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Moderation decision saved',
+      data: {
+        recommendation: formatRecommendation(recommendation),
+      },
+    });
+  } catch (error) {
+    handleError(res, error, 'Failed to moderate recommendation');
+  }
+};
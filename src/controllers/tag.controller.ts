@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import tagService from '@services/tag.service';
+
+/**
+ * @desc    Tag taxonomy: categories with their tags
+ * @route   GET /api/tags
+ * @access  Private
+ */
+export const getTags = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const categories = await tagService.getTaxonomy();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        categories,
+      },
+    });
+  } catch (error) {
+    console.error('Get tags error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching tags',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Suggest tags for interests and skills (?q=rea&limit=10&category=software-development)
+ * @route   GET /api/tags/autocomplete
+ * @access  Private
+ */
+export const autocompleteTags = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+
+    if (!query) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide a search query (q)',
+      });
+      return;
+    }
+
+    const suggestions = await tagService.autocomplete(query, limit, category);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        suggestions,
+      },
+    });
+  } catch (error) {
+    console.error('Autocomplete tags error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching tag suggestions',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
@@ -0,0 +1,240 @@
+import { Request, Response } from 'express';
+import { config } from '@config/env';
+import userSearchService, { UserSearchError } from '@services/userSearch.service';
+import locationService, { LocationError } from '@services/location.service';
+
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Accept ?interests=a,b as well as repeated ?interests=a&interests=b
+ */
+const parseList = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((entry): entry is string => typeof entry === 'string')
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+};
+
+const parseBoolean = (value: unknown): boolean | undefined => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
+/**
+ * Radius in km, capped at NEARBY_MAX_RADIUS_KM; undefined when not given or invalid
+ */
+const parseRadius = (value: unknown): number | undefined => {
+  const radius = parseFloat(value as string);
+  return radius > 0 ? Math.min(radius, config.NEARBY_MAX_RADIUS_KM) : undefined;
+};
+
+/**
+ * @desc    Search people by text (name, username, profession, bio, interests) with
+ *          filters, facet counts and cursor pagination, most relevant first
+ * @route   GET /api/users/search?q=&profession=&interests=&verified=&online=&radius=&limit=&cursor=
+ * @access  Private
+ */
+export const searchUsers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const profession =
+      typeof req.query.profession === 'string' ? req.query.profession.trim() : '';
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+
+    if (query.length > MAX_QUERY_LENGTH || profession.length > MAX_QUERY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        message: `Search terms cannot exceed ${MAX_QUERY_LENGTH} characters`,
+      });
+      return;
+    }
+
+    const result = await userSearchService.search(
+      currentUser._id,
+      {
+        query,
+        profession,
+        interests: parseList(req.query.interests),
+        verified: parseBoolean(req.query.verified),
+        online: parseBoolean(req.query.online),
+        radiusKm: parseRadius(req.query.radius),
+        cursor: typeof req.query.cursor === 'string' ? req.query.cursor : undefined,
+        limit,
+      },
+      global.socketService?.getConnectedUsers() || []
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UserSearchError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Search users error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error searching users',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    People sharing their location nearby, closest first (?radius=1&limit=20)
+ * @route   GET /api/users/nearby
+ * @access  Private
+ */
+export const getNearbyUsers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const radiusKm = parseRadius(req.query.radius) || config.NEARBY_RADIUS_KM;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+
+    // Only people who share their own location can see others
+    const location = await locationService.getCurrent(currentUser._id);
+
+    if (!location) {
+      res.status(400).json({
+        success: false,
+        message: 'Share your current location to see people nearby',
+      });
+      return;
+    }
+
+    const users = await locationService.findNearby(currentUser._id, location, { radiusKm, limit });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        users: users.map((user) => ({
+          ...user,
+          isOnline: global.socketService?.isUserOnline(user.userId) || false,
+        })),
+        radiusKm,
+        location: locationService.format(location),
+      },
+    });
+  } catch (error) {
+    console.error('Get nearby users error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching nearby users',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Update the current location (same as the location:update socket event)
+ * @route   PUT /api/users/location
+ * @access  Private
+ */
+export const updateLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+    const { latitude, longitude } = req.body || {};
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    const result = await locationService.update(currentUser._id, latitude, longitude);
+
+    if (!result) {
+      res.status(403).json({
+        success: false,
+        message: 'Turn on location sharing in your privacy settings first',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Location updated successfully',
+      data: {
+        location: locationService.format(result.location),
+      },
+    });
+  } catch (error) {
+    if (error instanceof LocationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Update location error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating location',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * @desc    Forget the stored location
+ * @route   DELETE /api/users/location
+ * @access  Private
+ */
+export const clearLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currentUser = req.user;
+
+    if (!currentUser) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized',
+      });
+      return;
+    }
+
+    await locationService.clear(currentUser._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Location removed',
+    });
+  } catch (error) {
+    console.error('Clear location error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing location',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
@@ -1,6 +1,8 @@
 import { server } from './app';
 import connectDB from '@config/database';
 import { config } from '@config/env';
+import accountService from '@services/account.service';
+import exportService from '@services/export.service';
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (err: Error) => {
@@ -12,6 +14,10 @@ process.on('uncaughtException', (err: Error) => {
 // Connect to database
 connectDB();
 
+// Permanently remove accounts once their deletion grace period is over
+accountService.startPurgeJob();
+exportService.startCleanupJob();
+
 // Start server
 server.listen(config.PORT, () => {
   console.log('');
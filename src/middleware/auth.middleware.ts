@@ -1,9 +1,55 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '@utils/jwt';
-import { User } from '@models/User';
+import { User, UserRole } from '@models/User';
+import sessionService from '@services/session.service';
+import apiKeyService from '@services/apiKey.service';
+import { ApiKeyScope } from '@models/ApiKey';
 
 /**
- * Middleware to protect routes - requires valid JWT token
+ * Authenticate a request made with a personal API key
+ */
+const authenticateApiKey = async (
+  key: string,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const apiKey = await apiKeyService.authenticate(key, req.ip);
+
+  if (!apiKey) {
+    res.status(401).json({
+      success: false,
+      message: 'Invalid, expired or revoked API key',
+    });
+    return;
+  }
+
+  const user = await User.findById(apiKey.userId);
+
+  if (!user || user.deletedAt) {
+    res.status(401).json({
+      success: false,
+      message: 'User not found',
+    });
+    return;
+  }
+
+  if (user.suspended) {
+    res.status(403).json({
+      success: false,
+      message: 'Your account has been suspended',
+    });
+    return;
+  }
+
+  req.user = user;
+  req.apiKey = apiKey;
+  next();
+};
+
+/**
+ * Middleware to protect routes - requires valid JWT token or an X-API-Key header.
+ * Routes reachable with API keys must declare the scope they need with `requireScope`.
  */
 export const protect = async (
   req: Request,
@@ -18,6 +64,12 @@ export const protect = async (
       token = req.headers.authorization.split(' ')[1];
     }
 
+    const apiKeyHeader = req.headers['x-api-key'];
+    if (!token && typeof apiKeyHeader === 'string') {
+      await authenticateApiKey(apiKeyHeader, req, res, next);
+      return;
+    }
+
     if (!token) {
       res.status(401).json({
         success: false,
@@ -40,12 +92,52 @@ export const protect = async (
       return;
     }
 
+    if (user.suspended) {
+      res.status(403).json({
+        success: false,
+        message: 'Your account has been suspended',
+      });
+      return;
+    }
+
+    if (user.deletedAt) {
+      res.status(401).json({
+        success: false,
+        message: 'Account has been deleted',
+      });
+      return;
+    }
+
+    // Tokens issued before an email change carry the old address
+    if (decoded.email !== user.email) {
+      res.status(401).json({
+        success: false,
+        message: 'Token is outdated, please refresh',
+      });
+      return;
+    }
+
+    // Reject tokens whose session has been revoked or has expired
+    const session = decoded.sessionId
+      ? await sessionService.getActiveSession(decoded.sessionId, user._id.toString())
+      : null;
+
+    if (!session) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has been revoked or expired',
+      });
+      return;
+    }
+
     // Update last active timestamp
     user.lastActive = new Date();
     await user.save();
+    await sessionService.touchSession(session, { ip: req.ip });
 
     // Attach user to request object
     req.user = user;
+    req.sessionId = session._id.toString();
     next();
   } catch (error) {
     res.status(401).json({
@@ -55,3 +147,74 @@ export const protect = async (
     });
   }
 };
+
+/**
+ * Middleware to require a verified email - use after protect
+ */
+export const requireVerified = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user?.verified) {
+    res.status(403).json({
+      success: false,
+      message: 'Please verify your email to use this feature',
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware to restrict routes to given roles - use after protect
+ */
+export const authorize = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const role = req.user?.role || 'user';
+
+    if (!roles.includes(role)) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to perform this action',
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Middleware to require API key scopes - must be used after protect.
+ * Requests authenticated with a JWT session are not restricted.
+ */
+export const requireScope = (...scopes: ApiKeyScope[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.apiKey && !scopes.every((scope) => req.apiKey!.scopes.includes(scope))) {
+      res.status(403).json({
+        success: false,
+        message: `API key is missing required scope: ${scopes.join(', ')}`,
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Middleware to reject API keys on account management routes - must be used after protect
+ */
+export const denyApiKey = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.apiKey) {
+    res.status(403).json({
+      success: false,
+      message: 'This route requires signing in and cannot be used with an API key',
+    });
+    return;
+  }
+
+  next();
+};
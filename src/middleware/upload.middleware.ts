@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { config } from '@config/env';
+
+const avatarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.AVATAR_MAX_SIZE_MB * 1024 * 1024,
+    files: 1,
+  },
+}).single('avatar');
+
+/**
+ * Middleware to read a multipart avatar upload (field "avatar") into memory.
+ * The file is available as req.file; its content is validated by the avatar service.
+ */
+export const uploadAvatarFile = (req: Request, res: Response, next: NextFunction): void => {
+  avatarUpload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        success: false,
+        message:
+          err.code === 'LIMIT_FILE_SIZE'
+            ? `Avatar cannot exceed ${config.AVATAR_MAX_SIZE_MB}MB`
+            : `Invalid upload: ${err.message}`,
+      });
+      return;
+    }
+
+    if (err) {
+      next(err);
+      return;
+    }
+
+    next();
+  });
+};
@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ApiKeyScope =
+  | 'read:profile'
+  | 'write:profile'
+  | 'read:connections'
+  | 'write:connections'
+  | 'read:messages'
+  | 'write:messages'
+  | 'read:matches'
+  | 'read:stats';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  'read:profile',
+  'write:profile',
+  'read:connections',
+  'write:connections',
+  'read:messages',
+  'write:messages',
+  'read:matches',
+  'read:stats',
+];
+
+export interface IApiKey extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive: () => boolean;
+}
+
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [50, 'Name cannot exceed 50 characters'],
+    },
+    // First characters of the key, shown so users can tell keys apart
+    prefix: {
+      type: String,
+      required: true,
+    },
+    // Only the SHA-256 hash is stored - the key itself is shown once on creation
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    scopes: {
+      type: [String],
+      enum: API_KEY_SCOPES,
+      default: [],
+    },
+    expiresAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+      trim: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  { timestamps: true }
+);
+
+// Index for efficient querying
+apiKeySchema.index({ userId: 1, createdAt: -1 });
+
+// Method to check whether the key can still be used
+apiKeySchema.methods.isActive = function (): boolean {
+  if (this.revokedAt) return false;
+  return !this.expiresAt || this.expiresAt.getTime() > Date.now();
+};
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
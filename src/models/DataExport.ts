@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DataExportFormat = 'json' | 'csv';
+export type DataExportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface IDataExport extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  format: DataExportFormat;
+  status: DataExportStatus;
+  fileName?: string;
+  filePath?: string;
+  size?: number;
+  error?: string;
+  completedAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dataExportSchema = new Schema<IDataExport>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: ['json', 'csv'],
+      default: 'json',
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'completed', 'failed'],
+      default: 'pending',
+    },
+    fileName: {
+      type: String,
+    },
+    // Location on disk - never exposed to clients
+    filePath: {
+      type: String,
+      select: false,
+    },
+    size: {
+      type: Number,
+    },
+    error: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  { timestamps: true }
+);
+
+// Index for efficient querying
+dataExportSchema.index({ userId: 1, createdAt: -1 });
+dataExportSchema.index({ expiresAt: 1 });
+
+export const DataExport = mongoose.model<IDataExport>('DataExport', dataExportSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+export type EndorsementType = 'skill' | 'interest';
+
+export const ENDORSEMENT_TYPES: EndorsementType[] = ['skill', 'interest'];
+
+export interface IEndorsement extends Document {
+  uuid: string;
+  endorserId: mongoose.Types.ObjectId;
+  endorseeId: mongoose.Types.ObjectId;
+  type: EndorsementType;
+  name: string;
+  // Lowercased name used for matching and uniqueness
+  key: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const endorsementSchema = new Schema<IEndorsement>(
+  {
+    uuid: {
+      type: String,
+      default: uuidv4,
+      unique: true,
+      required: true,
+    },
+    endorserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    endorseeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ENDORSEMENT_TYPES,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One endorsement per endorser for each skill or interest
+endorsementSchema.index({ endorserId: 1, endorseeId: 1, type: 1, key: 1 }, { unique: true });
+// Index for efficient querying
+endorsementSchema.index({ endorseeId: 1, type: 1, key: 1 });
+
+export const Endorsement = mongoose.model<IEndorsement>('Endorsement', endorsementSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type LoginThrottleScope = 'account' | 'ip';
+
+export interface ILoginThrottle extends Document {
+  _id: mongoose.Types.ObjectId;
+  scope: LoginThrottleScope;
+  key: string;
+  failedCount: number;
+  lastFailedAt: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const loginThrottleSchema = new Schema<ILoginThrottle>(
+  {
+    scope: {
+      type: String,
+      enum: ['account', 'ip'],
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    failedCount: {
+      type: Number,
+      default: 0,
+    },
+    lastFailedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// One counter per account / IP
+loginThrottleSchema.index({ scope: 1, key: 1 }, { unique: true });
+
+// Forget counters once the failure window and any lockout have passed
+loginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginThrottle = mongoose.model<ILoginThrottle>('LoginThrottle', loginThrottleSchema);
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IMagicLinkToken extends Document {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  tokenHash: string;
+  ip?: string;
+  usedAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const magicLinkTokenSchema = new Schema<IMagicLinkToken>(
+  {
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    // Only the SHA-256 hash is stored - the raw token lives in the email
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    ip: {
+      type: String,
+      trim: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// Index for efficient querying
+magicLinkTokenSchema.index({ email: 1, createdAt: -1 });
+
+// Remove links once they have expired
+magicLinkTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const MagicLinkToken = mongoose.model<IMagicLinkToken>('MagicLinkToken', magicLinkTokenSchema);
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type OAuthStatePurpose = 'login' | 'link';
+
+export interface IOAuthState extends Document {
+  _id: mongoose.Types.ObjectId;
+  stateHash: string;
+  provider: string;
+  purpose: OAuthStatePurpose;
+  userId?: mongoose.Types.ObjectId;
+  codeVerifier: string;
+  redirectUri: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const oauthStateSchema = new Schema<IOAuthState>(
+  {
+    // Only the SHA-256 hash of the state parameter is stored
+    stateHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: ['login', 'link'],
+      required: true,
+    },
+    // Set when linking a provider to an existing account
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    codeVerifier: {
+      type: String,
+      required: true,
+    },
+    redirectUri: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// Abandoned authorization attempts are removed automatically
+oauthStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OAuthState = mongoose.model<IOAuthState>('OAuthState', oauthStateSchema);
@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Where the viewer opened the profile from
+export type ProfileViewSource = 'match' | 'chatbot' | 'search' | 'direct';
+
+export const PROFILE_VIEW_SOURCES: ProfileViewSource[] = ['match', 'chatbot', 'search', 'direct'];
+
+/**
+ * Views of a profile by one viewer on one (UTC) day
+ */
+export interface IProfileView extends Document {
+  _id: mongoose.Types.ObjectId;
+  viewerId: mongoose.Types.ObjectId;
+  viewedId: mongoose.Types.ObjectId;
+  // Source of the first view that day
+  source: ProfileViewSource;
+  day: Date;
+  viewCount: number;
+  lastViewedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const profileViewSchema = new Schema<IProfileView>(
+  {
+    viewerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    viewedId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: PROFILE_VIEW_SOURCES,
+      default: 'direct',
+    },
+    day: {
+      type: Date,
+      required: true,
+    },
+    viewCount: {
+      type: Number,
+      default: 1,
+    },
+    lastViewedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// One entry per viewer, profile and day
+profileViewSchema.index({ viewedId: 1, viewerId: 1, day: 1 }, { unique: true });
+// Index for efficient querying
+profileViewSchema.index({ viewedId: 1, day: -1 });
+profileViewSchema.index({ viewerId: 1 });
+
+// Forget views after the retention period
+profileViewSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const ProfileView = mongoose.model<IProfileView>('ProfileView', profileViewSchema);
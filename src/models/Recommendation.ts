@@ -0,0 +1,147 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * requested - recipient asked the author to write one
+ * declined  - author declined the request
+ * pending   - written or edited, waiting for the recipient's approval
+ * visible   - approved, shown on the recipient's profile
+ * hidden    - recipient chose not to show it
+ */
+export type RecommendationStatus = 'requested' | 'declined' | 'pending' | 'visible' | 'hidden';
+
+export const RECOMMENDATION_STATUSES: RecommendationStatus[] = [
+  'requested',
+  'declined',
+  'pending',
+  'visible',
+  'hidden',
+];
+
+// Previous version kept when the author edits a recommendation
+export interface RecommendationRevision {
+  content: string;
+  relationship?: string;
+  editedAt: Date;
+}
+
+export interface RecommendationReport {
+  userId: mongoose.Types.ObjectId;
+  reason: string;
+  createdAt: Date;
+}
+
+export interface IRecommendation extends Document {
+  uuid: string;
+  authorId: mongoose.Types.ObjectId;
+  recipientId: mongoose.Types.ObjectId;
+  status: RecommendationStatus;
+  requestMessage?: string;
+  relationship?: string;
+  content?: string;
+  history: RecommendationRevision[];
+  writtenAt?: Date;
+  approvedAt?: Date;
+  flagged: boolean;
+  flagReason?: string;
+  reports: RecommendationReport[];
+  removedAt?: Date;
+  removedBy?: mongoose.Types.ObjectId;
+  removalReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const recommendationSchema = new Schema<IRecommendation>(
+  {
+    uuid: {
+      type: String,
+      default: uuidv4,
+      unique: true,
+      required: true,
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    recipientId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: RECOMMENDATION_STATUSES,
+      required: true,
+    },
+    requestMessage: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    relationship: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    content: {
+      type: String,
+      trim: true,
+      maxlength: 3000,
+    },
+    history: [
+      {
+        _id: false,
+        content: { type: String, required: true },
+        relationship: { type: String },
+        editedAt: { type: Date, required: true },
+      },
+    ],
+    writtenAt: {
+      type: Date,
+    },
+    approvedAt: {
+      type: Date,
+    },
+    flagged: {
+      type: Boolean,
+      default: false,
+    },
+    flagReason: {
+      type: String,
+    },
+    reports: [
+      {
+        _id: false,
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        reason: { type: String, required: true, maxlength: 500 },
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+    removedAt: {
+      type: Date,
+    },
+    removedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    removalReason: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One recommendation per author and recipient
+recommendationSchema.index({ authorId: 1, recipientId: 1 }, { unique: true });
+// Index for efficient querying
+recommendationSchema.index({ recipientId: 1, status: 1 });
+recommendationSchema.index({ flagged: 1, removedAt: 1 });
+
+export const Recommendation = mongoose.model<IRecommendation>(
+  'Recommendation',
+  recommendationSchema
+);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SecurityEventType = 'account_locked' | 'account_suspended' | 'account_unsuspended';
+
+export interface ISecurityEvent extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  type: SecurityEventType;
+  ip?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const securityEventSchema = new Schema<ISecurityEvent>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['account_locked', 'account_suspended', 'account_unsuspended'],
+      required: true,
+    },
+    ip: {
+      type: String,
+      trim: true,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  { timestamps: true }
+);
+
+// Index for efficient querying
+securityEventSchema.index({ userId: 1, createdAt: -1 });
+
+export const SecurityEvent = mongoose.model<ISecurityEvent>('SecurityEvent', securityEventSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'reuse_detected'
+  | 'password_reset'
+  | 'password_change'
+  | 'remote_logout'
+  | 'account_deleted'
+  | 'account_claimed';
+
+export interface ISession extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousTokenHashes: string[];
+  deviceName?: string;
+  userAgent?: string;
+  ip?: string;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive: () => boolean;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    previousTokenHashes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    deviceName: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Device name cannot exceed 100 characters'],
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+    },
+    ip: {
+      type: String,
+      trim: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: [
+        'logout',
+        'logout_all',
+        'reuse_detected',
+        'password_reset',
+        'password_change',
+        'remote_logout',
+        'account_deleted',
+        'account_claimed',
+      ],
+    },
+  },
+  { timestamps: true }
+);
+
+// Index for efficient querying
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+
+// Remove sessions from the collection once they expire
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Method to check whether the session can still be used
+sessionSchema.methods.isActive = function (): boolean {
+  return !this.revokedAt && this.expiresAt.getTime() > Date.now();
+};
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Canonical interest / skill. Top-level tags are categories;
+ * other tags point to their category through `parent`.
+ */
+export interface ITag extends Document {
+  _id: mongoose.Types.ObjectId;
+  slug: string;
+  name: string;
+  aliases: string[];
+  // Normalized name and aliases, used for lookups
+  keys: string[];
+  parent?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const tagSchema = new Schema<ITag>(
+  {
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    aliases: {
+      type: [String],
+      default: [],
+    },
+    keys: {
+      type: [String],
+      default: [],
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tag',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A name or alias belongs to a single tag
+tagSchema.index({ keys: 1 }, { unique: true });
+// Index for efficient querying
+tagSchema.index({ parent: 1 });
+
+export const Tag = mongoose.model<ITag>('Tag', tagSchema);
@@ -1,6 +1,116 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcrypt';
+import { config } from '@config/env';
+import { generateNumericCode, generateRandomToken, hashToken } from '@utils/token';
+
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+export const SKILL_LEVELS: SkillLevel[] = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+export interface WorkExperience {
+  _id: mongoose.Types.ObjectId;
+  company: string;
+  title: string;
+  location?: string;
+  description?: string;
+  startDate: Date;
+  endDate?: Date;
+  current: boolean;
+}
+
+export interface Education {
+  _id: mongoose.Types.ObjectId;
+  school: string;
+  degree?: string;
+  fieldOfStudy?: string;
+  description?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface Skill {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  level: SkillLevel;
+}
+
+export type VisibilityLevel = 'public' | 'connections' | 'private';
+
+export const VISIBILITY_LEVELS: VisibilityLevel[] = ['public', 'connections', 'private'];
+
+// Profile fields whose visibility the user controls ("experience" also covers education)
+export type PrivacyField = 'phone' | 'email' | 'bio' | 'interests' | 'experience';
+
+export const PRIVACY_FIELDS: PrivacyField[] = ['phone', 'email', 'bio', 'interests', 'experience'];
+
+// How finely a shared location is stored: about 10 m, 1 km or 10 km
+export type LocationPrecision = 'precise' | 'approximate' | 'city';
+
+export const LOCATION_PRECISIONS: LocationPrecision[] = ['precise', 'approximate', 'city'];
+
+export interface PrivacySettings extends Record<PrivacyField, VisibilityLevel> {
+  // Excluded from matches, search and chatbot suggestions
+  hiddenFromDiscovery: boolean;
+  // Profiles this user opens do not list them as a viewer
+  anonymousProfileViews: boolean;
+  // Store the user's location and show them to people nearby
+  shareLocation: boolean;
+  locationPrecision: LocationPrecision;
+}
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  phone: 'private',
+  email: 'connections',
+  bio: 'public',
+  interests: 'public',
+  experience: 'public',
+  hiddenFromDiscovery: false,
+  anonymousProfileViews: false,
+  shareLocation: false,
+  locationPrecision: 'approximate',
+};
+
+// Profile fields cleared when an account is deleted, kept aside until purge
+export interface DeletedProfileSnapshot {
+  username?: string;
+  name?: string;
+  phone?: string;
+  bio?: string;
+  profession?: string;
+  interests?: string[];
+  avatar?: string;
+  experience?: WorkExperience[];
+  education?: Education[];
+  skills?: Skill[];
+}
+
+// Uploaded avatar: one stored file per thumbnail size
+export interface AvatarImage {
+  version: string;
+  sizes: number[];
+  uploadedAt: Date;
+}
+
+// Last shared location (GeoJSON point, [longitude, latitude]), already rounded to its precision
+export interface UserLocation {
+  type: 'Point';
+  coordinates: [number, number];
+  precision: LocationPrecision;
+  updatedAt: Date;
+}
+
+// Account at an external OAuth/OIDC provider that can be used to sign in
+export interface LinkedIdentity {
+  provider: string;
+  subject: string;
+  email?: string;
+  linkedAt: Date;
+}
 
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
@@ -13,14 +123,46 @@ export interface IUser extends Document {
   bio?: string;
   profession?: string;
   interests?: string[];
+  experience: WorkExperience[];
+  education: Education[];
+  skills: Skill[];
+  privacy: PrivacySettings;
   avatar?: string;
+  avatarImage?: AvatarImage;
+  location?: UserLocation;
   socketId?: string;
   aiEmbedding?: number[];
   verified?: boolean;
+  role: UserRole;
+  suspended?: boolean;
+  suspendedAt?: Date;
+  suspendedReason?: string;
+  deletedAt?: Date;
+  scheduledPurgeAt?: Date;
+  deletedProfile?: DeletedProfileSnapshot;
   lastActive?: Date;
+  passwordChangedAt?: Date;
+  passwordResetTokenHash?: string;
+  passwordResetExpires?: Date;
+  emailVerificationCodeHash?: string;
+  emailVerificationExpires?: Date;
+  emailVerificationAttempts?: number;
+  emailVerificationSentAt?: Date;
+  pendingEmail?: string;
+  emailChangeTokenHash?: string;
+  emailChangeExpires?: Date;
+  twoFactorEnabled?: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
+  identities: LinkedIdentity[];
   createdAt: Date;
   updatedAt: Date;
   comparePassword: (_password: string) => Promise<boolean>;
+  createPasswordResetToken: () => string;
+  createEmailVerificationCode: () => string;
+  createEmailChangeToken: (_newEmail: string) => string;
 }
 
 const userSchema = new Schema<IUser>(
@@ -87,10 +229,160 @@ const userSchema = new Schema<IUser>(
         trim: true,
       },
     ],
+    experience: [
+      {
+        company: {
+          type: String,
+          required: [true, 'Company is required'],
+          trim: true,
+          maxlength: [100, 'Company cannot exceed 100 characters'],
+        },
+        title: {
+          type: String,
+          required: [true, 'Title is required'],
+          trim: true,
+          maxlength: [100, 'Title cannot exceed 100 characters'],
+        },
+        location: {
+          type: String,
+          trim: true,
+          maxlength: [100, 'Location cannot exceed 100 characters'],
+        },
+        description: {
+          type: String,
+          trim: true,
+          maxlength: [1000, 'Description cannot exceed 1000 characters'],
+        },
+        startDate: {
+          type: Date,
+          required: [true, 'Start date is required'],
+        },
+        endDate: {
+          type: Date,
+        },
+        current: {
+          type: Boolean,
+          default: false,
+        },
+      },
+    ],
+    education: [
+      {
+        school: {
+          type: String,
+          required: [true, 'School is required'],
+          trim: true,
+          maxlength: [100, 'School cannot exceed 100 characters'],
+        },
+        degree: {
+          type: String,
+          trim: true,
+          maxlength: [100, 'Degree cannot exceed 100 characters'],
+        },
+        fieldOfStudy: {
+          type: String,
+          trim: true,
+          maxlength: [100, 'Field of study cannot exceed 100 characters'],
+        },
+        description: {
+          type: String,
+          trim: true,
+          maxlength: [1000, 'Description cannot exceed 1000 characters'],
+        },
+        startDate: {
+          type: Date,
+        },
+        endDate: {
+          type: Date,
+        },
+      },
+    ],
+    skills: [
+      {
+        name: {
+          type: String,
+          required: [true, 'Skill name is required'],
+          trim: true,
+          maxlength: [50, 'Skill name cannot exceed 50 characters'],
+        },
+        level: {
+          type: String,
+          enum: SKILL_LEVELS,
+          default: 'intermediate',
+        },
+      },
+    ],
+    privacy: {
+      phone: {
+        type: String,
+        enum: VISIBILITY_LEVELS,
+        default: DEFAULT_PRIVACY_SETTINGS.phone,
+      },
+      email: {
+        type: String,
+        enum: VISIBILITY_LEVELS,
+        default: DEFAULT_PRIVACY_SETTINGS.email,
+      },
+      bio: {
+        type: String,
+        enum: VISIBILITY_LEVELS,
+        default: DEFAULT_PRIVACY_SETTINGS.bio,
+      },
+      interests: {
+        type: String,
+        enum: VISIBILITY_LEVELS,
+        default: DEFAULT_PRIVACY_SETTINGS.interests,
+      },
+      experience: {
+        type: String,
+        enum: VISIBILITY_LEVELS,
+        default: DEFAULT_PRIVACY_SETTINGS.experience,
+      },
+      hiddenFromDiscovery: {
+        type: Boolean,
+        default: false,
+      },
+      anonymousProfileViews: {
+        type: Boolean,
+        default: false,
+      },
+      shareLocation: {
+        type: Boolean,
+        default: false,
+      },
+      locationPrecision: {
+        type: String,
+        enum: LOCATION_PRECISIONS,
+        default: DEFAULT_PRIVACY_SETTINGS.locationPrecision,
+      },
+    },
     avatar: {
       type: String,
       default: '',
     },
+    avatarImage: {
+      type: new Schema(
+        {
+          version: { type: String, required: true },
+          sizes: { type: [Number], required: true },
+          uploadedAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      select: false,
+    },
+    location: {
+      type: new Schema(
+        {
+          type: { type: String, enum: ['Point'], required: true },
+          coordinates: { type: [Number], required: true },
+          precision: { type: String, enum: LOCATION_PRECISIONS, required: true },
+          updatedAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      select: false,
+    },
     socketId: {
       type: String,
       default: null,
@@ -103,14 +395,150 @@ const userSchema = new Schema<IUser>(
       type: Boolean,
       default: false,
     },
+    role: {
+      type: String,
+      enum: USER_ROLES,
+      default: 'user',
+    },
+    suspended: {
+      type: Boolean,
+      default: false,
+    },
+    suspendedAt: {
+      type: Date,
+    },
+    suspendedReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Suspension reason cannot exceed 500 characters'],
+    },
+    deletedAt: {
+      type: Date,
+    },
+    scheduledPurgeAt: {
+      type: Date,
+    },
+    deletedProfile: {
+      type: Schema.Types.Mixed,
+      select: false,
+    },
     lastActive: {
       type: Date,
       default: Date.now,
     },
+    passwordChangedAt: {
+      type: Date,
+    },
+    passwordResetTokenHash: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    emailVerificationCodeHash: {
+      type: String,
+      select: false,
+    },
+    emailVerificationExpires: {
+      type: Date,
+      select: false,
+    },
+    emailVerificationAttempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    emailVerificationSentAt: {
+      type: Date,
+      select: false,
+    },
+    // New address waiting for confirmation - login keeps using `email` until then
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    emailChangeTokenHash: {
+      type: String,
+      select: false,
+    },
+    emailChangeExpires: {
+      type: Date,
+      select: false,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: undefined,
+      select: false,
+    },
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    identities: [
+      {
+        _id: false,
+        provider: {
+          type: String,
+          required: true,
+        },
+        subject: {
+          type: String,
+          required: true,
+        },
+        email: {
+          type: String,
+          lowercase: true,
+          trim: true,
+        },
+        linkedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
   },
   { timestamps: true }
 );
 
+// A provider account can only be linked to one user
+userSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
+
+// Index for nearby searches
+userSchema.index({ location: '2dsphere' }, { sparse: true });
+
+// Index for the account purge job
+userSchema.index({ scheduledPurgeAt: 1 }, { sparse: true });
+
+// Query filter for accounts other users may see and interact with
+export const ACTIVE_USER_FILTER = {
+  suspended: { $ne: true },
+  deletedAt: { $exists: false },
+};
+
+// Active accounts that may appear in matches, search and suggestions
+export const DISCOVERABLE_USER_FILTER = {
+  ...ACTIVE_USER_FILTER,
+  'privacy.hiddenFromDiscovery': { $ne: true },
+};
+
 // Hash password before saving
 userSchema.pre('save', async function (next) {
   // Only hash if password is modified
@@ -122,6 +550,7 @@ userSchema.pre('save', async function (next) {
   try {
     const salt = await bcrypt.genSalt(10);
     this.password = await bcrypt.hash(this.password, salt);
+    if (!this.isNew) this.passwordChangedAt = new Date();
     this.lastActive = new Date();
     next();
   } catch (error) {
@@ -136,4 +565,43 @@ userSchema.methods.comparePassword = async function (
   return await bcrypt.compare(password, this.password);
 };
 
+// Method to issue a password reset token (only the hash is stored)
+userSchema.methods.createPasswordResetToken = function (): string {
+  const token = generateRandomToken();
+
+  this.passwordResetTokenHash = hashToken(token);
+  this.passwordResetExpires = new Date(
+    Date.now() + config.PASSWORD_RESET_EXPIRE_MINUTES * 60 * 1000
+  );
+
+  return token;
+};
+
+// Method to issue an email verification code (only the hash is stored)
+userSchema.methods.createEmailVerificationCode = function (): string {
+  const code = generateNumericCode();
+
+  this.emailVerificationCodeHash = hashToken(code);
+  this.emailVerificationExpires = new Date(
+    Date.now() + config.EMAIL_VERIFICATION_EXPIRE_MINUTES * 60 * 1000
+  );
+  this.emailVerificationAttempts = 0;
+  this.emailVerificationSentAt = new Date();
+
+  return code;
+};
+
+// Method to start an email change (only the hash of the confirmation token is stored)
+userSchema.methods.createEmailChangeToken = function (newEmail: string): string {
+  const token = generateRandomToken();
+
+  this.pendingEmail = newEmail;
+  this.emailChangeTokenHash = hashToken(token);
+  this.emailChangeExpires = new Date(
+    Date.now() + config.EMAIL_CHANGE_EXPIRE_MINUTES * 60 * 1000
+  );
+
+  return token;
+};
+
 export const User = mongoose.model<IUser>('User', userSchema);
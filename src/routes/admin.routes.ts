@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { protect, authorize, denyApiKey } from '@middleware/auth.middleware';
+import {
+  listUsers,
+  getUser,
+  getUserConnections,
+  getUserActivity,
+  suspendUser,
+  unsuspendUser,
+  verifyUser,
+  resetUserPassword,
+  deleteUser,
+} from '@controllers/admin.controller';
+
+const router = Router();
+
+// All routes require an admin
+router.use(protect, denyApiKey, authorize('admin'));
+
+// User management routes
+router.get('/users', listUsers);
+router.get('/users/:userId', getUser);
+router.get('/users/:userId/connections', getUserConnections);
+router.get('/users/:userId/activity', getUserActivity);
+router.put('/users/:userId/suspend', suspendUser);
+router.put('/users/:userId/unsuspend', unsuspendUser);
+router.put('/users/:userId/verify', verifyUser);
+router.post('/users/:userId/reset-password', resetUserPassword);
+router.delete('/users/:userId', deleteUser);
+
+export default router;
@@ -1,15 +1,101 @@
 import { Router } from 'express';
-import { register, login, getMe, updateProfile } from '@controllers/auth.controller';
-import { protect } from '@middleware/auth.middleware';
+import {
+  register,
+  login,
+  getMe,
+  updateProfile,
+  refresh,
+  logout,
+  logoutAll,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  verifyEmail,
+  resendVerification,
+  verifyTwoFactorLogin,
+  enrollTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  getSecurityEvents,
+  getSessions,
+  revokeSession,
+  deleteAccount,
+  restoreAccount,
+  requestDataExport,
+  getDataExport,
+  downloadDataExport,
+  requestMagicLink,
+  verifyMagicLink,
+  getOAuthProviders,
+  startOAuthLogin,
+  oauthCallback,
+  getIdentities,
+  startIdentityLink,
+  linkIdentity,
+  unlinkIdentity,
+  requestEmailChange,
+  confirmEmailChange,
+  cancelEmailChange,
+  getPasswordPolicyRules,
+} from '@controllers/auth.controller';
+import { createApiKey, listApiKeys, revokeApiKey } from '@controllers/apiKey.controller';
+import { protect, requireScope, denyApiKey } from '@middleware/auth.middleware';
 
 const router = Router();
 
+// Account management needs an interactive session - API keys are rejected
+const sessionOnly = [protect, denyApiKey];
+
 // Public routes
 router.post('/register', register);
 router.post('/login', login);
+router.post('/refresh', refresh);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+router.post('/verify-email', verifyEmail);
+router.post('/2fa/verify', verifyTwoFactorLogin);
+router.post('/magic-link', requestMagicLink);
+router.post('/magic-link/verify', verifyMagicLink);
+router.get('/oauth/providers', getOAuthProviders);
+router.post('/oauth/:provider/authorize', startOAuthLogin);
+router.post('/oauth/:provider/callback', oauthCallback);
+router.post('/account/restore', restoreAccount);
+router.get('/password-policy', getPasswordPolicyRules);
 
 // Protected routes
-router.get('/me', protect, getMe);
-router.put('/profile', protect, updateProfile);
+router.get('/me', protect, requireScope('read:profile'), getMe);
+router.put('/profile', protect, requireScope('write:profile'), updateProfile);
+router.put('/password', sessionOnly, changePassword);
+router.post('/email/change', sessionOnly, requestEmailChange);
+router.delete('/email/change', sessionOnly, cancelEmailChange);
+router.post('/email/confirm', sessionOnly, confirmEmailChange);
+router.post('/resend-verification', sessionOnly, resendVerification);
+router.post('/logout', sessionOnly, logout);
+router.post('/logout-all', sessionOnly, logoutAll);
+router.get('/security-events', sessionOnly, getSecurityEvents);
+router.get('/sessions', sessionOnly, getSessions);
+router.delete('/sessions/:id', sessionOnly, revokeSession);
+router.delete('/account', sessionOnly, deleteAccount);
+router.post('/export', sessionOnly, requestDataExport);
+router.get('/export/:id', sessionOnly, getDataExport);
+router.get('/export/:id/download', sessionOnly, downloadDataExport);
+
+// Two-factor authentication management
+router.post('/2fa/enroll', sessionOnly, enrollTwoFactor);
+router.post('/2fa/confirm', sessionOnly, confirmTwoFactor);
+router.post('/2fa/disable', sessionOnly, disableTwoFactor);
+router.post('/2fa/recovery-codes', sessionOnly, regenerateRecoveryCodes);
+
+// Linked OAuth/OpenID Connect providers
+router.get('/identities', sessionOnly, getIdentities);
+router.post('/identities/:provider/authorize', sessionOnly, startIdentityLink);
+router.post('/identities/:provider/callback', sessionOnly, linkIdentity);
+router.delete('/identities/:provider', sessionOnly, unlinkIdentity);
+
+// Personal API keys
+router.get('/api-keys', sessionOnly, listApiKeys);
+router.post('/api-keys', sessionOnly, createApiKey);
+router.delete('/api-keys/:id', sessionOnly, revokeApiKey);
 
 export default router;
@@ -7,12 +7,12 @@ import {
   getSuggestions,
   markMessageAsRead,
 } from '@controllers/chatbot.controller';
-import { protect } from '@middleware/auth.middleware';
+import { protect, denyApiKey } from '@middleware/auth.middleware';
 
 const router = Router();
 
 // All chatbot routes require authentication
-router.use(protect);
+router.use(protect, denyApiKey);
 
 /**
  * @route   POST /api/chatbot/message
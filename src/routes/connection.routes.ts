@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { protect } from '@middleware/auth.middleware';
+import { protect, requireVerified, requireScope } from '@middleware/auth.middleware';
 import {
   sendConnectionRequest,
   respondToConnectionRequest,
@@ -13,9 +13,9 @@ const router = Router();
 router.use(protect);
 
 // Connection routes
-router.post('/send', sendConnectionRequest);
-router.put('/:connectionId/respond', respondToConnectionRequest);
-router.get('/', getUserConnections);
-router.get('/:connectionId', getConnection);
+router.post('/send', requireScope('write:connections'), requireVerified, sendConnectionRequest);
+router.put('/:connectionId/respond', requireScope('write:connections'), respondToConnectionRequest);
+router.get('/', requireScope('read:connections'), getUserConnections);
+router.get('/:connectionId', requireScope('read:connections'), getConnection);
 
 export default router;
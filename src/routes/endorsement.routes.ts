@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { protect, requireScope } from '@middleware/auth.middleware';
+import {
+  giveEndorsement,
+  withdrawEndorsement,
+  getGivenEndorsements,
+  getUserEndorsements,
+} from '@controllers/endorsement.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(protect);
+
+// Endorsement routes
+router.post('/', requireScope('write:connections'), giveEndorsement);
+router.get('/given', requireScope('read:connections'), getGivenEndorsements);
+router.get('/user/:userId', requireScope('read:connections'), getUserEndorsements);
+router.delete('/:id', requireScope('write:connections'), withdrawEndorsement);
+
+export default router;
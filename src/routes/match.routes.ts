@@ -1,11 +1,11 @@
 import { Router } from 'express';
 import { getMatches, generateConnectionMessage, getUserProfile } from '@controllers/match.controller';
-import { protect } from '@middleware/auth.middleware';
+import { protect, requireScope } from '@middleware/auth.middleware';
 
 const router = Router();
 
 // All routes are protected
-router.use(protect);
+router.use(protect, requireScope('read:matches'));
 
 // Get AI-powered matches for current user
 router.get('/', getMatches);
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { protect } from '@middleware/auth.middleware';
+import { protect, requireScope } from '@middleware/auth.middleware';
 import {
   sendMessage,
   getMessages,
@@ -13,9 +13,9 @@ const router = Router();
 router.use(protect);
 
 // Message routes
-router.post('/send', sendMessage);
-router.get('/unread/count', getUnreadCounts);
-router.get('/:connectionId', getMessages);
-router.put('/:connectionId/read', markMessagesAsRead);
+router.post('/send', requireScope('write:messages'), sendMessage);
+router.get('/unread/count', requireScope('read:messages'), getUnreadCounts);
+router.get('/:connectionId', requireScope('read:messages'), getMessages);
+router.put('/:connectionId/read', requireScope('write:messages'), markMessagesAsRead);
 
 export default router;
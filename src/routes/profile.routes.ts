@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import {
+  getProfile,
+  addExperience,
+  updateExperience,
+  deleteExperience,
+  addEducation,
+  updateEducation,
+  deleteEducation,
+  addSkill,
+  updateSkill,
+  deleteSkill,
+  getPrivacySettings,
+  updatePrivacySettings,
+  getAvatar,
+  uploadAvatar,
+  deleteAvatar,
+  getProfileViews,
+} from '@controllers/profile.controller';
+import { protect, requireScope } from '@middleware/auth.middleware';
+import { uploadAvatarFile } from '@middleware/upload.middleware';
+
+const router = Router();
+
+// All routes are protected
+router.use(protect);
+
+// Get experience, education and skills
+router.get('/', requireScope('read:profile'), getProfile);
+
+// Work experience
+router.post('/experience', requireScope('write:profile'), addExperience);
+router.put('/experience/:id', requireScope('write:profile'), updateExperience);
+router.delete('/experience/:id', requireScope('write:profile'), deleteExperience);
+
+// Education
+router.post('/education', requireScope('write:profile'), addEducation);
+router.put('/education/:id', requireScope('write:profile'), updateEducation);
+router.delete('/education/:id', requireScope('write:profile'), deleteEducation);
+
+// Skills
+router.post('/skills', requireScope('write:profile'), addSkill);
+router.put('/skills/:id', requireScope('write:profile'), updateSkill);
+router.delete('/skills/:id', requireScope('write:profile'), deleteSkill);
+
+// Privacy settings
+router.get('/privacy', requireScope('read:profile'), getPrivacySettings);
+router.put('/privacy', requireScope('write:profile'), updatePrivacySettings);
+
+// Avatar (multipart upload)
+router.get('/avatar', requireScope('read:profile'), getAvatar);
+router.post('/avatar', requireScope('write:profile'), uploadAvatarFile, uploadAvatar);
+router.delete('/avatar', requireScope('write:profile'), deleteAvatar);
+
+// Who viewed my profile
+router.get('/views', requireScope('read:profile'), getProfileViews);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import {
+  getPublicProfile,
+  getPublicProfileVCard,
+  getPublicProfileQr,
+  requirePublicUrl,
+} from '@controllers/publicProfile.controller';
+
+const router = Router();
+
+// Shareable profile pages - no authentication, only public fields
+router.use(requirePublicUrl);
+router.get('/:username', getPublicProfile);
+router.get('/:username/vcard', getPublicProfileVCard);
+router.get('/:username/qr', getPublicProfileQr);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { protect, requireScope, authorize, denyApiKey } from '@middleware/auth.middleware';
+import {
+  requestRecommendation,
+  writeRecommendation,
+  updateRecommendation,
+  declineRecommendationRequest,
+  approveRecommendation,
+  hideRecommendation,
+  deleteRecommendation,
+  getReceivedRecommendations,
+  getGivenRecommendations,
+  getUserRecommendations,
+  getRecommendationHistory,
+  reportRecommendation,
+  getFlaggedRecommendations,
+  moderateRecommendation,
+} from '@controllers/recommendation.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(protect);
+
+// Moderation routes
+router.get('/moderation', denyApiKey, authorize('moderator', 'admin'), getFlaggedRecommendations);
+router.put('/:id/moderate', denyApiKey, authorize('moderator', 'admin'), moderateRecommendation);
+
+// Recommendation routes
+router.post('/request', requireScope('write:connections'), requestRecommendation);
+router.post('/', requireScope('write:connections'), writeRecommendation);
+router.get('/received', requireScope('read:connections'), getReceivedRecommendations);
+router.get('/given', requireScope('read:connections'), getGivenRecommendations);
+router.get('/user/:userId', requireScope('read:connections'), getUserRecommendations);
+router.get('/:id/history', requireScope('read:connections'), getRecommendationHistory);
+router.put('/:id', requireScope('write:connections'), updateRecommendation);
+router.put('/:id/decline', requireScope('write:connections'), declineRecommendationRequest);
+router.put('/:id/approve', requireScope('write:connections'), approveRecommendation);
+router.put('/:id/hide', requireScope('write:connections'), hideRecommendation);
+router.post('/:id/report', requireScope('write:connections'), reportRecommendation);
+router.delete('/:id', requireScope('write:connections'), deleteRecommendation);
+
+export default router;
@@ -1,10 +1,10 @@
 import { Router, Request, Response } from 'express';
-import { protect } from '@middleware/auth.middleware';
+import { protect, authorize, denyApiKey } from '@middleware/auth.middleware';
 
 const router = Router();
 
 // Get connected users count
-router.get('/connected-users', protect, (_req: Request, res: Response): void => {
+router.get('/connected-users', protect, denyApiKey, (_req: Request, res: Response): void => {
   try {
     const socketService = global.socketService;
     
@@ -35,7 +35,7 @@ router.get('/connected-users', protect, (_req: Request, res: Response): void =>
 });
 
 // Check if user is online
-router.get('/user/:userId/online', protect, (req: Request, res: Response): void => {
+router.get('/user/:userId/online', protect, denyApiKey, (req: Request, res: Response): void => {
   try {
     const { userId } = req.params;
     const socketService = global.socketService;
@@ -66,8 +66,8 @@ router.get('/user/:userId/online', protect, (req: Request, res: Response): void
   }
 });
 
-// Send notification to user
-router.post('/notify/:userId', protect, (req: Request, res: Response): void => {
+// Send notification to user (staff only)
+router.post('/notify/:userId', protect, denyApiKey, authorize('moderator', 'admin'), (req: Request, res: Response): void => {
   try {
     const { userId } = req.params;
     const { message, type = 'info', data } = req.body;
@@ -108,8 +108,8 @@ router.post('/notify/:userId', protect, (req: Request, res: Response): void => {
   }
 });
 
-// Broadcast message to all connected users
-router.post('/broadcast', protect, (req: Request, res: Response): void => {
+// Broadcast message to all connected users (admin only)
+router.post('/broadcast', protect, denyApiKey, authorize('admin'), (req: Request, res: Response): void => {
   try {
     const { event, data } = req.body;
     const socketService = global.socketService;
@@ -1,11 +1,11 @@
 import { Router } from 'express';
 import { getNetworkStats, getUserActivity } from '../controllers/stats.controller';
-import { protect } from '../middleware/auth.middleware';
+import { protect, requireScope } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // All routes require authentication
-router.use(protect);
+router.use(protect, requireScope('read:stats'));
 
 // @route   GET /api/stats/network
 // @desc    Get network statistics
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { protect, requireScope } from '@middleware/auth.middleware';
+import { getTags, autocompleteTags } from '@controllers/tag.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(protect);
+
+// Tag routes
+router.get('/', requireScope('read:profile'), getTags);
+router.get('/autocomplete', requireScope('read:profile'), autocompleteTags);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { protect, requireScope } from '@middleware/auth.middleware';
+import {
+  searchUsers,
+  getNearbyUsers,
+  updateLocation,
+  clearLocation,
+} from '@controllers/user.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(protect);
+
+// People discovery
+router.get('/search', requireScope('read:matches'), searchUsers);
+router.get('/nearby', requireScope('read:matches'), getNearbyUsers);
+
+// Shared location
+router.put('/location', requireScope('write:profile'), updateLocation);
+router.delete('/location', requireScope('write:profile'), clearLocation);
+
+export default router;
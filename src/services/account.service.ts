@@ -0,0 +1,229 @@
+import mongoose from 'mongoose';
+import { config } from '@config/env';
+import { IUser, User } from '@models/User';
+import { Connection } from '@models/Connection';
+import { Message } from '@models/Message';
+import { Conversation } from '@models/Conversation';
+import { ChatMessage } from '@models/ChatMessage';
+import { Session } from '@models/Session';
+import { SecurityEvent } from '@models/SecurityEvent';
+import { LoginThrottle } from '@models/LoginThrottle';
+import { MagicLinkToken } from '@models/MagicLinkToken';
+import { ApiKey } from '@models/ApiKey';
+import { Endorsement } from '@models/Endorsement';
+import { Recommendation } from '@models/Recommendation';
+import { ProfileView } from '@models/ProfileView';
+import sessionService from '@services/session.service';
+import exportService from '@services/export.service';
+import avatarService from '@services/avatar.service';
+import apiKeyService from '@services/apiKey.service';
+import { generateRandomToken } from '@utils/token';
+
+export interface PurgeResult {
+  connections: number;
+  messages: number;
+  conversations: number;
+  chatMessages: number;
+  sessions: number;
+}
+
+// How often the purge job looks for accounts past their grace period
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+class AccountService {
+  private purgeTimer?: NodeJS.Timeout;
+
+  /**
+   * Soft-delete an account: anonymize the profile, sign out everywhere and
+   * schedule permanent deletion after the grace period
+   */
+  async softDeleteAccount(user: IUser): Promise<Date> {
+    const scheduledPurgeAt = new Date(
+      Date.now() + config.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    // Keep the original profile aside so the account can be restored
+    user.deletedProfile = {
+      username: user.username,
+      name: user.name,
+      phone: user.phone,
+      bio: user.bio,
+      profession: user.profession,
+      interests: user.interests,
+      avatar: user.avatar,
+      experience: user.experience,
+      education: user.education,
+      skills: user.skills,
+    };
+    user.username = undefined;
+    user.name = 'Deleted User';
+    user.phone = undefined;
+    user.bio = undefined;
+    user.profession = undefined;
+    user.interests = [];
+    user.experience = [];
+    user.education = [];
+    user.skills = [];
+    user.avatar = '';
+    user.aiEmbedding = [];
+    user.location = undefined;
+    user.socketId = undefined;
+    user.deletedAt = new Date();
+    user.scheduledPurgeAt = scheduledPurgeAt;
+    await user.save();
+
+    await sessionService.revokeAllSessions(user._id.toString(), 'account_deleted');
+    await apiKeyService.revokeAllKeys(user._id);
+    global.socketService?.disconnectUser(user._id.toString(), 'Account deleted');
+
+    return scheduledPurgeAt;
+  }
+
+  /**
+   * Verify an account whose address was never confirmed, now that its owner has proven it.
+   * Whoever registered the address first may not own it, so their password, second
+   * factor, linked providers, sessions, API keys and pending tokens are dropped.
+   */
+  async claimUnverifiedAccount(user: IUser): Promise<void> {
+    user.password = generateRandomToken();
+    user.verified = true;
+    user.emailVerificationCodeHash = undefined;
+    user.emailVerificationExpires = undefined;
+    user.emailVerificationAttempts = undefined;
+    user.emailVerificationSentAt = undefined;
+    user.passwordResetTokenHash = undefined;
+    user.passwordResetExpires = undefined;
+    user.pendingEmail = undefined;
+    user.emailChangeTokenHash = undefined;
+    user.emailChangeExpires = undefined;
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = undefined;
+    user.twoFactorLastUsedStep = undefined;
+    user.identities = [];
+    await user.save();
+
+    await sessionService.revokeAllSessions(user._id.toString(), 'account_claimed');
+    await apiKeyService.revokeAllKeys(user._id);
+    global.socketService?.disconnectUser(user._id.toString(), 'Signed out');
+  }
+
+  /**
+   * Undo a soft-delete during the grace period
+   * User must be loaded with +deletedProfile
+   */
+  async restoreAccount(user: IUser): Promise<void> {
+    const snapshot = user.deletedProfile || {};
+
+    // The username may have been claimed by someone else in the meantime
+    if (snapshot.username) {
+      const taken = await User.exists({ username: snapshot.username, _id: { $ne: user._id } });
+      if (!taken) user.username = snapshot.username;
+    }
+
+    user.name = snapshot.name;
+    user.phone = snapshot.phone;
+    user.bio = snapshot.bio;
+    user.profession = snapshot.profession;
+    user.interests = snapshot.interests || [];
+    user.experience = snapshot.experience || [];
+    user.education = snapshot.education || [];
+    user.skills = snapshot.skills || [];
+    user.avatar = snapshot.avatar || '';
+    user.deletedProfile = undefined;
+    user.deletedAt = undefined;
+    user.scheduledPurgeAt = undefined;
+    await user.save();
+  }
+
+  /**
+   * Permanently delete accounts whose grace period is over
+   * @returns Number of accounts purged
+   */
+  async purgeExpiredAccounts(): Promise<number> {
+    const expired = await User.find({
+      deletedAt: { $exists: true },
+      scheduledPurgeAt: { $lte: new Date() },
+    }).select('_id');
+
+    for (const user of expired) {
+      await this.purgeUserData(user._id.toString());
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Run the purge job periodically (long-running server only)
+   */
+  startPurgeJob(intervalMs = PURGE_INTERVAL_MS): void {
+    if (this.purgeTimer) return;
+
+    const run = () => {
+      this.purgeExpiredAccounts()
+        .then((count) => {
+          if (count > 0) console.log(`🗑️ Purged ${count} deleted account(s)`);
+        })
+        .catch((err) => console.error('Account purge job error:', err));
+    };
+
+    this.purgeTimer = setInterval(run, intervalMs);
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * Permanently delete a user and every document that references them
+   */
+  async purgeUserData(userId: string): Promise<PurgeResult> {
+    const objectId = new mongoose.Types.ObjectId(userId);
+    const user = await User.findById(objectId);
+
+    // Messages live in connections - remove both sides of every conversation
+    const connections = await Connection.find({ participants: objectId }).select('_id');
+    const connectionIds = connections.map((connection) => connection._id);
+
+    const messages = await Message.deleteMany({
+      $or: [
+        { connectionId: { $in: connectionIds } },
+        { senderId: objectId },
+        { receiverId: objectId },
+      ],
+    });
+    const deletedConnections = await Connection.deleteMany({ _id: { $in: connectionIds } });
+
+    // Chatbot history is keyed by string ids
+    const conversations = await Conversation.find({ userId }).select('conversationId');
+    const conversationIds = conversations.map((conversation) => conversation.conversationId);
+
+    const chatMessages = await ChatMessage.deleteMany({
+      $or: [{ conversationId: { $in: conversationIds } }, { senderId: userId }],
+    });
+    const deletedConversations = await Conversation.deleteMany({ userId });
+
+    const sessions = await Session.deleteMany({ userId: objectId });
+    await SecurityEvent.deleteMany({ userId: objectId });
+    await ApiKey.deleteMany({ userId: objectId });
+    await Endorsement.deleteMany({ $or: [{ endorserId: objectId }, { endorseeId: objectId }] });
+    await Recommendation.deleteMany({ $or: [{ authorId: objectId }, { recipientId: objectId }] });
+    await ProfileView.deleteMany({ $or: [{ viewerId: objectId }, { viewedId: objectId }] });
+    await exportService.deleteUserExports(objectId);
+    await avatarService.deleteUserAvatar(objectId);
+
+    if (user) {
+      await LoginThrottle.deleteMany({ scope: 'account', key: user.email });
+      await MagicLinkToken.deleteMany({ email: user.email });
+      await User.deleteOne({ _id: objectId });
+    }
+
+    return {
+      connections: deletedConnections.deletedCount,
+      messages: messages.deletedCount,
+      conversations: deletedConversations.deletedCount,
+      chatMessages: chatMessages.deletedCount,
+      sessions: sessions.deletedCount,
+    };
+  }
+}
+
+export default new AccountService();
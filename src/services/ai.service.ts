@@ -1,6 +1,17 @@
 import OpenAI from 'openai';
 import { config } from '@config/env';
-import { IUser } from '@models/User';
+import { Education, IUser } from '@models/User';
+
+/**
+ * Format a date range as years, e.g. "2019 - present"
+ */
+const formatPeriod = (startDate?: Date, endDate?: Date, current = false): string => {
+  const start = startDate ? new Date(startDate).getFullYear().toString() : '';
+  const end = current ? 'present' : endDate ? new Date(endDate).getFullYear().toString() : '';
+
+  if (!start) return end;
+  return end && end !== start ? `${start} - ${end}` : start;
+};
 
 interface MatchSuggestion {
   userId: string;
@@ -14,10 +25,11 @@ interface MatchUser {
   uuid: string;
   username?: string;
   name?: string;
-  email: string;
+  email?: string;
   profession?: string;
   bio?: string;
   interests?: string[];
+  skills?: Array<{ name: string; level: string }>;
   avatar?: string;
   verified: boolean;
   createdAt: string;
@@ -66,6 +78,9 @@ class AIService {
           profession: user.profession,
           bio: user.bio,
           interests: user.interests,
+          skills: this.summarizeSkills(user),
+          experience: this.summarizeExperience(user),
+          education: this.summarizeEducation(user),
           email: user.email, // For internal reference only
         }));
 
@@ -80,7 +95,8 @@ ${JSON.stringify(matchesProfile, null, 2)}
 
 Provide match analysis considering:
 - Shared interests and hobbies
-- Complementary professional skills
+- Complementary professional skills and skill levels
+- Overlapping companies, industries or schools
 - Similar career levels or goals
 - Mutual networking opportunities
 
@@ -173,6 +189,7 @@ Example response format:
               profession: matchedUser.profession,
               bio: matchedUser.bio,
               interests: matchedUser.interests,
+              skills: matchedUser.skills.map((skill) => ({ name: skill.name, level: skill.level })),
               avatar: matchedUser.avatar,
               verified: matchedUser.verified,
               createdAt: matchedUser.createdAt.toISOString(),
@@ -221,7 +238,7 @@ Example response format:
   /**
    * Format user profile for AI analysis
    */
-  private formatUserProfile(user: IUser): string {
+  formatUserProfile(user: IUser): string {
     const profile = [];
 
     if (user.name) profile.push(`Name: ${user.name}`);
@@ -231,10 +248,49 @@ Example response format:
     if (user.interests && user.interests.length > 0) {
       profile.push(`Interests: ${user.interests.join(', ')}`);
     }
+    if (user.skills && user.skills.length > 0) {
+      profile.push(`Skills: ${this.summarizeSkills(user).join(', ')}`);
+    }
+    if (user.experience && user.experience.length > 0) {
+      profile.push('Experience:');
+      user.experience.forEach((job) => {
+        const period = formatPeriod(job.startDate, job.endDate, job.current);
+        profile.push(`- ${job.title} at ${job.company} (${period})`);
+      });
+    }
+    if (user.education && user.education.length > 0) {
+      profile.push('Education:');
+      user.education.forEach((entry) => {
+        const period = formatPeriod(entry.startDate, entry.endDate);
+        profile.push(`- ${this.describeEducation(entry)}${period ? ` (${period})` : ''}`);
+      });
+    }
 
     return profile.join('\n');
   }
 
+  /**
+   * One-line summaries of structured profile data (used in match lists)
+   */
+  summarizeExperience(user: IUser): string[] {
+    return (user.experience || []).map(
+      (job) => `${job.title} at ${job.company}${job.current ? ' (current)' : ''}`
+    );
+  }
+
+  summarizeEducation(user: IUser): string[] {
+    return (user.education || []).map((entry) => this.describeEducation(entry));
+  }
+
+  summarizeSkills(user: IUser): string[] {
+    return (user.skills || []).map((skill) => `${skill.name} (${skill.level})`);
+  }
+
+  private describeEducation(entry: Education): string {
+    const degree = [entry.degree, entry.fieldOfStudy].filter(Boolean).join(' in ');
+    return degree ? `${degree} at ${entry.school}` : entry.school;
+  }
+
   /**
    * Generate a personalized connection message
    */
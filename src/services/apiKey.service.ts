@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import { ApiKey, ApiKeyScope, IApiKey } from '@models/ApiKey';
+import { generateRandomToken, hashToken } from '@utils/token';
+
+// Keys start with this marker so they are easy to recognize (and to scan for in leaks)
+const API_KEY_MARKER = 'syk_';
+const PREFIX_LENGTH = 12;
+
+export const MAX_API_KEYS_PER_USER = 20;
+
+// Minimum interval between two "last used" writes for the same key
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+}
+
+class ApiKeyService {
+  /**
+   * Create a key for a user
+   * @returns The stored key and the plain key (only available now)
+   */
+  async createKey(
+    userId: mongoose.Types.ObjectId,
+    input: CreateApiKeyInput
+  ): Promise<{ apiKey: IApiKey; key: string }> {
+    const key = `${API_KEY_MARKER}${generateRandomToken()}`;
+
+    const apiKey = await ApiKey.create({
+      userId,
+      name: input.name,
+      prefix: key.slice(0, PREFIX_LENGTH),
+      keyHash: hashToken(key),
+      scopes: [...new Set(input.scopes)],
+      expiresAt: input.expiresAt,
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Count keys that can still be used
+   */
+  async countActiveKeys(userId: mongoose.Types.ObjectId): Promise<number> {
+    return ApiKey.countDocuments({
+      userId,
+      revokedAt: { $exists: false },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+    });
+  }
+
+  /**
+   * List a user's keys, newest first (revoked keys included for auditing)
+   */
+  async listKeys(userId: mongoose.Types.ObjectId): Promise<IApiKey[]> {
+    return ApiKey.find({ userId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Revoke a key owned by the user
+   * @returns false when no active key matched
+   */
+  async revokeKey(keyId: string, userId: mongoose.Types.ObjectId): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(keyId)) return false;
+
+    const result = await ApiKey.updateOne(
+      { _id: keyId, userId, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Revoke every key of a user (e.g. after a password reset)
+   */
+  async revokeAllKeys(userId: mongoose.Types.ObjectId): Promise<void> {
+    await ApiKey.updateMany({ userId, revokedAt: { $exists: false } }, { revokedAt: new Date() });
+  }
+
+  /**
+   * Look up an active key and record its use
+   */
+  async authenticate(key: string, ip?: string): Promise<IApiKey | null> {
+    if (typeof key !== 'string' || !key.startsWith(API_KEY_MARKER)) return null;
+
+    const apiKey = await ApiKey.findOne({ keyHash: hashToken(key) });
+    if (!apiKey || !apiKey.isActive()) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() >= TOUCH_INTERVAL_MS) {
+      apiKey.lastUsedAt = new Date();
+      if (ip) apiKey.lastUsedIp = ip;
+      await apiKey.save();
+    }
+
+    return apiKey;
+  }
+}
+
+export default new ApiKeyService();
@@ -0,0 +1,175 @@
+import mongoose from 'mongoose';
+import sharp from 'sharp';
+import { config } from '@config/env';
+import { AvatarImage, IUser, User } from '@models/User';
+import storageService, { IMMUTABLE_CACHE_CONTROL } from '@services/storage.service';
+import { detectImageType } from '@utils/imageType';
+import { generateRandomToken } from '@utils/token';
+
+/**
+ * Avatar upload rejected because of the file (not a server fault)
+ */
+export class AvatarError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'AvatarError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Thumbnail URL per size in pixels
+export type AvatarUrls = Record<number, string>;
+
+// Larger images are rejected before decoding (decompression bombs)
+const MAX_INPUT_PIXELS = 50_000_000;
+
+const THUMBNAIL_QUALITY = 85;
+
+class AvatarService {
+  /**
+   * Store a new avatar as square WebP thumbnails and remove the previous upload.
+   * The largest thumbnail becomes the user's avatar URL.
+   */
+  async upload(user: IUser, file: Buffer): Promise<AvatarUrls> {
+    // Trust the content, not the client's file name or content type
+    if (!detectImageType(file)) {
+      throw new AvatarError('Avatar must be a JPEG, PNG, GIF or WebP image', 415);
+    }
+
+    const image: AvatarImage = {
+      version: generateRandomToken(8),
+      sizes: config.AVATAR_SIZES,
+      uploadedAt: new Date(),
+    };
+    const thumbnails = await this.createThumbnails(file, image.sizes);
+    const keys = image.sizes.map((size) => this.getKey(user._id, image.version, size));
+
+    try {
+      await Promise.all(
+        thumbnails.map((data, index) =>
+          storageService.put(keys[index]!, data, {
+            contentType: 'image/webp',
+            cacheControl: IMMUTABLE_CACHE_CONTROL,
+          })
+        )
+      );
+    } catch (error) {
+      await this.deleteKeys(keys);
+      throw error;
+    }
+
+    const urls = this.getUrls(user._id, image);
+    const avatar = urls[image.sizes[image.sizes.length - 1]!]!;
+
+    // Swap atomically so concurrent uploads each clean up the version they replaced
+    const previous = await User.findByIdAndUpdate(user._id, {
+      $set: { avatar, avatarImage: image },
+    }).select('+avatarImage');
+
+    user.avatar = avatar;
+    await this.deleteImage(user._id, previous?.avatarImage);
+
+    return urls;
+  }
+
+  /**
+   * Remove the avatar, deleting the uploaded files if there are any
+   */
+  async remove(user: IUser): Promise<void> {
+    const previous = await User.findByIdAndUpdate(user._id, {
+      $set: { avatar: '' },
+      $unset: { avatarImage: 1 },
+    }).select('+avatarImage');
+
+    user.avatar = '';
+    await this.deleteImage(user._id, previous?.avatarImage);
+  }
+
+  /**
+   * Delete the uploaded files once the avatar no longer points to them
+   * (e.g. the user set an external URL instead)
+   */
+  async discardUpload(userId: mongoose.Types.ObjectId): Promise<void> {
+    const previous = await User.findByIdAndUpdate(userId, {
+      $unset: { avatarImage: 1 },
+    }).select('+avatarImage');
+
+    await this.deleteImage(userId, previous?.avatarImage);
+  }
+
+  /**
+   * Thumbnail URLs of the user's uploaded avatar
+   * @returns The URLs, or null when the avatar was not uploaded
+   */
+  async getUserUrls(userId: mongoose.Types.ObjectId): Promise<AvatarUrls | null> {
+    const user = await User.findById(userId).select('+avatarImage');
+    return user?.avatarImage ? this.getUrls(userId, user.avatarImage) : null;
+  }
+
+  /**
+   * Delete a user's avatar files (account purge)
+   */
+  async deleteUserAvatar(userId: mongoose.Types.ObjectId): Promise<void> {
+    const user = await User.findById(userId).select('+avatarImage');
+    await this.deleteImage(userId, user?.avatarImage);
+  }
+
+  getUrls(userId: mongoose.Types.ObjectId, image: AvatarImage): AvatarUrls {
+    return Object.fromEntries(
+      image.sizes.map((size) => [
+        size,
+        storageService.getUrl(this.getKey(userId, image.version, size)),
+      ])
+    );
+  }
+
+  /**
+   * Resize to every thumbnail size. The output carries no metadata,
+   * so EXIF data (camera, GPS location, ...) is stripped.
+   */
+  private async createThumbnails(file: Buffer, sizes: number[]): Promise<Buffer[]> {
+    try {
+      // Apply the EXIF orientation before the metadata is dropped
+      const image = sharp(file, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+      return await Promise.all(
+        sizes.map((size) =>
+          image
+            .clone()
+            .resize(size, size, { fit: 'cover' })
+            .webp({ quality: THUMBNAIL_QUALITY })
+            .toBuffer()
+        )
+      );
+    } catch {
+      throw new AvatarError('Avatar image could not be processed');
+    }
+  }
+
+  private getKey(userId: mongoose.Types.ObjectId, version: string, size: number): string {
+    return `avatars/${userId}/${version}/${size}.webp`;
+  }
+
+  private async deleteImage(
+    userId: mongoose.Types.ObjectId,
+    image: AvatarImage | undefined
+  ): Promise<void> {
+    if (!image) return;
+    await this.deleteKeys(image.sizes.map((size) => this.getKey(userId, image.version, size)));
+  }
+
+  /**
+   * Failed cleanups only leave orphaned files behind, so they are logged
+   */
+  private async deleteKeys(keys: string[]): Promise<void> {
+    try {
+      await storageService.delete(keys);
+    } catch (error) {
+      console.error('Avatar cleanup error:', error);
+    }
+  }
+}
+
+export default new AvatarService();
@@ -4,7 +4,10 @@ import { IUser } from '@models/User';
 import { ChatMessage, IChatMessage } from '@models/ChatMessage';
 import { Conversation, IConversation } from '@models/Conversation';
 import AIService from './ai.service';
-import { User } from '@models/User';
+import privacyService from './privacy.service';
+import profileViewService from './profileView.service';
+import tagService from './tag.service';
+import { User, ACTIVE_USER_FILTER, DISCOVERABLE_USER_FILTER } from '@models/User';
 
 export interface SuggestedUser {
   userId: string;
@@ -225,8 +228,18 @@ Respond with JSON: {"type": "intent_type", "confidence": 0.95}
       const potentialMatches = await User.find({
         _id: { $ne: context.user._id },
         verified: true,
+        ...DISCOVERABLE_USER_FILTER,
       }).limit(20);
 
+      // Only fields visible to the user reach the AI and the suggestions
+      const connectedIds = await privacyService.getConnectedUserIds(context.user._id);
+      potentialMatches.forEach((user) =>
+        privacyService.redact(
+          user,
+          privacyService.relationFor(context.user._id, user._id, connectedIds)
+        )
+      );
+
       const matches = await AIService.generateUserMatches(context.user, potentialMatches);
 
       if (matches.length === 0) {
@@ -312,29 +325,48 @@ Respond with JSON: {"type": "intent_type", "confidence": 0.95}
    * Handle search help intent
    */
   private async handleSearchHelp(message: string, context: ChatContext): Promise<ChatbotResponse> {
-    // Extract search terms from message
-    const searchTerms = message.toLowerCase().match(/\b(react|javascript|python|ai|design|marketing|sales|developer|manager|engineer)\b/g) || [];
-    
-    if (searchTerms.length === 0) {
-      return {
-        message: "I'd be happy to help you find people! What skills, interests, or professions are you looking for?",
-        messageType: 'text',
-      };
-    }
-
     try {
-      // Search for users with matching skills/interests
+      // Look for known interests, skills and categories in the message
+      const tags = await tagService.findInText(message);
+
+      if (tags.length === 0) {
+        return {
+          message: "I'd be happy to help you find people! What skills, interests, or professions are you looking for?",
+          messageType: 'text',
+        };
+      }
+
+      const searchTerms = tags.map((tag) => tag.name);
+      const { names, pattern } = await tagService.getSearchTerms(tags);
+      const connectedIds = await privacyService.getConnectedUserIds(context.user._id);
+
+      // Search for users with matching skills/interests - only in fields the user may see
       const searchQuery = {
         $or: [
-          { profession: { $regex: searchTerms.join('|'), $options: 'i' } },
-          { interests: { $in: searchTerms } },
-          { bio: { $regex: searchTerms.join('|'), $options: 'i' } },
+          { profession: { $regex: pattern, $options: 'i' } },
+          {
+            interests: { $in: names },
+            ...privacyService.visibleFieldFilter('interests', connectedIds),
+          },
+          {
+            $and: [
+              { bio: { $regex: pattern, $options: 'i' } },
+              privacyService.visibleFieldFilter('bio', connectedIds),
+            ],
+          },
         ],
         _id: { $ne: context.user._id },
         verified: true,
+        ...DISCOVERABLE_USER_FILTER,
       };
 
       const matches = await User.find(searchQuery).limit(10);
+      matches.forEach((user) =>
+        privacyService.redact(
+          user,
+          privacyService.relationFor(context.user._id, user._id, connectedIds)
+        )
+      );
       
       if (matches.length === 0) {
         return {
@@ -501,12 +533,24 @@ Provide a helpful, friendly response. If it's not related to networking, politel
         };
       }
 
-      // Search for user by name
+      // Search for user by name - hidden profiles can only be found by their connections
+      const connectedIds = await privacyService.getConnectedUserIds(context.user._id);
       const targetUser = await User.findOne({
-        $or: [
-          { name: { $regex: userName, $options: 'i' } },
-          { username: { $regex: userName, $options: 'i' } }
-        ]
+        $and: [
+          {
+            $or: [
+              { name: { $regex: userName, $options: 'i' } },
+              { username: { $regex: userName, $options: 'i' } }
+            ],
+          },
+          {
+            $or: [
+              { 'privacy.hiddenFromDiscovery': { $ne: true } },
+              { _id: { $in: Array.from(connectedIds) } },
+            ],
+          },
+        ],
+        ...ACTIVE_USER_FILTER,
       }).select('-password -aiEmbedding -email');
 
       if (!targetUser) {
@@ -516,6 +560,12 @@ Provide a helpful, friendly response. If it's not related to networking, politel
         };
       }
 
+      privacyService.redact(
+        targetUser,
+        privacyService.relationFor(context.user._id, targetUser._id, connectedIds)
+      );
+      profileViewService.track(context.user._id, targetUser._id, 'chatbot');
+
       // Generate detailed analysis
       const analysis = await this.generateUserAnalysis(context.user, targetUser);
 
@@ -567,17 +617,10 @@ Provide a helpful, friendly response. If it's not related to networking, politel
 You are a professional networking assistant. Analyze this user profile and provide detailed, realistic information about how they might relate to the current user.
 
 CURRENT USER:
-- Name: ${currentUser.name || currentUser.username}
-- Profession: ${currentUser.profession || 'Not specified'}
-- Bio: ${currentUser.bio || 'Not provided'}
-- Interests: ${currentUser.interests?.join(', ') || 'None'}
+${AIService.formatUserProfile(currentUser) || 'No profile details'}
 
 TARGET USER:
-- Name: ${targetUser.name || targetUser.username}
-- Username: ${targetUser.username || 'Not provided'}
-- Profession: ${targetUser.profession || 'Not specified'}
-- Bio: ${targetUser.bio || 'Not provided'}
-- Interests: ${targetUser.interests?.join(', ') || 'None'}
+${AIService.formatUserProfile(targetUser) || 'No profile details'}
 - Member since: ${new Date(targetUser.createdAt).toLocaleDateString()}
 - Verified: ${targetUser.verified ? 'Yes' : 'No'}
 
@@ -0,0 +1,221 @@
+import mongoose from 'mongoose';
+import { Connection } from '@models/Connection';
+import { ACTIVE_USER_FILTER, IUser, User } from '@models/User';
+import { Endorsement, EndorsementType, IEndorsement } from '@models/Endorsement';
+
+/**
+ * Endorsement rejected because of the request (not a server fault)
+ */
+export class EndorsementError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'EndorsementError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface EndorserSummary {
+  id: string;
+  name?: string;
+  username?: string;
+  avatar?: string;
+}
+
+export interface EndorsementSummary {
+  type: EndorsementType;
+  name: string;
+  count: number;
+  endorsedByMe: boolean;
+  endorsers: EndorserSummary[];
+}
+
+export interface EndorsementCount {
+  type: EndorsementType;
+  name: string;
+  count: number;
+}
+
+const toKey = (name: string): string => name.trim().toLowerCase();
+
+class EndorsementService {
+  /**
+   * Whether two users have an accepted connection
+   */
+  async areConnected(
+    userId: mongoose.Types.ObjectId,
+    otherUserId: mongoose.Types.ObjectId
+  ): Promise<boolean> {
+    const connection = await Connection.exists({
+      participants: { $all: [userId, otherUserId] },
+      status: 'accepted',
+    });
+
+    return Boolean(connection);
+  }
+
+  /**
+   * Endorse one of a connection's skills or interests
+   */
+  async endorse(
+    endorser: IUser,
+    endorseeId: string,
+    type: EndorsementType,
+    name: string
+  ): Promise<IEndorsement> {
+    if (!mongoose.Types.ObjectId.isValid(endorseeId)) {
+      throw new EndorsementError('User not found', 404);
+    }
+
+    if (endorser._id.equals(endorseeId)) {
+      throw new EndorsementError('You cannot endorse yourself');
+    }
+
+    const endorsee = await User.findOne({ _id: endorseeId, ...ACTIVE_USER_FILTER });
+    if (!endorsee) {
+      throw new EndorsementError('User not found', 404);
+    }
+
+    if (!(await this.areConnected(endorser._id, endorsee._id))) {
+      throw new EndorsementError('You can only endorse your connections', 403);
+    }
+
+    // Endorse the entry as the endorsee wrote it
+    const displayName = this.getEndorsableNames(endorsee, type).get(toKey(name));
+    if (!displayName) {
+      throw new EndorsementError(
+        type === 'skill'
+          ? 'This user has not listed that skill'
+          : 'This user has not listed that interest',
+        404
+      );
+    }
+
+    const existing = await Endorsement.exists({
+      endorserId: endorser._id,
+      endorseeId: endorsee._id,
+      type,
+      key: toKey(name),
+    });
+    if (existing) {
+      throw new EndorsementError('You have already endorsed this', 409);
+    }
+
+    return Endorsement.create({
+      endorserId: endorser._id,
+      endorseeId: endorsee._id,
+      type,
+      name: displayName,
+      key: toKey(name),
+    });
+  }
+
+  /**
+   * Withdraw an endorsement given by the user
+   * @returns The removed endorsement, or null when it was not found
+   */
+  async withdraw(
+    endorserId: mongoose.Types.ObjectId,
+    endorsementId: string
+  ): Promise<IEndorsement | null> {
+    if (!mongoose.Types.ObjectId.isValid(endorsementId)) {
+      return null;
+    }
+
+    return Endorsement.findOneAndDelete({ _id: endorsementId, endorserId });
+  }
+
+  /**
+   * Endorsements received for the skills and interests the user currently lists
+   */
+  async getSummary(
+    user: IUser,
+    viewerId?: mongoose.Types.ObjectId
+  ): Promise<EndorsementSummary[]> {
+    const endorsements = await Endorsement.find({ endorseeId: user._id })
+      .populate({ path: 'endorserId', select: 'name username avatar', match: ACTIVE_USER_FILTER })
+      .sort({ createdAt: -1 });
+
+    const summaries = new Map<string, EndorsementSummary>();
+
+    for (const type of ['skill', 'interest'] as EndorsementType[]) {
+      this.getEndorsableNames(user, type).forEach((name, key) => {
+        summaries.set(`${type}:${key}`, {
+          type,
+          name,
+          count: 0,
+          endorsedByMe: false,
+          endorsers: [],
+        });
+      });
+    }
+
+    for (const endorsement of endorsements) {
+      const summary = summaries.get(`${endorsement.type}:${endorsement.key}`);
+      const endorser = endorsement.endorserId as unknown as
+        | (EndorserSummary & { _id: mongoose.Types.ObjectId })
+        | null;
+
+      // Skip entries the user removed and endorsers that are gone
+      if (!summary || !endorser) continue;
+
+      summary.count += 1;
+      summary.endorsedByMe = summary.endorsedByMe || Boolean(viewerId?.equals(endorser._id));
+      summary.endorsers.push({
+        id: endorser._id.toString(),
+        name: endorser.name,
+        username: endorser.username,
+        avatar: endorser.avatar,
+      });
+    }
+
+    return Array.from(summaries.values()).sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Number of endorsements per listed skill and interest
+   */
+  async getCounts(user: IUser): Promise<EndorsementCount[]> {
+    const grouped = await Endorsement.aggregate<{
+      _id: { type: EndorsementType; key: string };
+      count: number;
+    }>([
+      { $match: { endorseeId: user._id } },
+      { $group: { _id: { type: '$type', key: '$key' }, count: { $sum: 1 } } },
+    ]);
+
+    const counts = new Map(
+      grouped.map((entry) => [`${entry._id.type}:${entry._id.key}`, entry.count])
+    );
+    const result: EndorsementCount[] = [];
+
+    for (const type of ['skill', 'interest'] as EndorsementType[]) {
+      this.getEndorsableNames(user, type).forEach((name, key) => {
+        const count = counts.get(`${type}:${key}`);
+        if (count) result.push({ type, name, count });
+      });
+    }
+
+    return result.sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Endorsements the user has given
+   */
+  async listGiven(endorserId: mongoose.Types.ObjectId): Promise<IEndorsement[]> {
+    return Endorsement.find({ endorserId })
+      .populate('endorseeId', 'name username avatar')
+      .sort({ createdAt: -1 });
+  }
+
+  /**
+   * Skills or interests listed on a profile, keyed by lowercased name
+   */
+  private getEndorsableNames(user: IUser, type: EndorsementType): Map<string, string> {
+    const names = type === 'skill' ? user.skills.map((skill) => skill.name) : user.interests || [];
+    return new Map(names.filter(Boolean).map((name) => [toKey(name), name.trim()]));
+  }
+}
+
+export default new EndorsementService();
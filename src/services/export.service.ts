@@ -0,0 +1,536 @@
+import mongoose from 'mongoose';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { config } from '@config/env';
+import { User } from '@models/User';
+import { Connection } from '@models/Connection';
+import { Message } from '@models/Message';
+import { Conversation } from '@models/Conversation';
+import { ChatMessage } from '@models/ChatMessage';
+import { Endorsement } from '@models/Endorsement';
+import { Recommendation } from '@models/Recommendation';
+import { ProfileView } from '@models/ProfileView';
+import { DataExport, DataExportFormat, IDataExport } from '@models/DataExport';
+import statsService, { NetworkStats } from '@services/stats.service';
+import { toCsv } from '@utils/csv';
+import { createZip } from '@utils/zip';
+
+export interface PersonalDataArchive {
+  exportedAt: Date;
+  profile: Record<string, unknown>;
+  experience: Array<Record<string, unknown>>;
+  education: Array<Record<string, unknown>>;
+  skills: Array<Record<string, unknown>>;
+  endorsements: Array<Record<string, unknown>>;
+  recommendations: Array<Record<string, unknown>>;
+  profileViews: Array<Record<string, unknown>>;
+  connections: Array<Record<string, unknown>>;
+  messages: Array<Record<string, unknown>>;
+  conversations: Array<Record<string, unknown>>;
+  chatMessages: Array<Record<string, unknown>>;
+  stats: NetworkStats;
+}
+
+// How often expired export files are removed
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+class ExportService {
+  private cleanupTimer?: NodeJS.Timeout;
+
+  /**
+   * Queue a personal data export, reusing one that is still being generated
+   */
+  async requestExport(userId: mongoose.Types.ObjectId, format: DataExportFormat): Promise<IDataExport> {
+    // An export interrupted by a crash or restart would otherwise block new ones
+    await this.failStaleExports({ userId });
+
+    const inProgress = await DataExport.findOne({
+      userId,
+      status: { $in: ['pending', 'processing'] },
+    });
+
+    if (inProgress) {
+      return inProgress;
+    }
+
+    const dataExport = await DataExport.create({ userId, format });
+
+    // Generate in the background - the client polls the status endpoint
+    setImmediate(() => {
+      this.processExport(dataExport._id).catch((err) =>
+        console.error('Data export error:', err)
+      );
+    });
+
+    return dataExport;
+  }
+
+  /**
+   * Get an export owned by the user (includes the file path)
+   */
+  async getExport(exportId: string, userId: mongoose.Types.ObjectId): Promise<IDataExport | null> {
+    if (!mongoose.Types.ObjectId.isValid(exportId)) {
+      return null;
+    }
+
+    return DataExport.findOne({ _id: exportId, userId }).select('+filePath');
+  }
+
+  /**
+   * Build the archive and write it to disk
+   */
+  async processExport(exportId: mongoose.Types.ObjectId): Promise<void> {
+    const dataExport = await DataExport.findById(exportId);
+    if (!dataExport || dataExport.status !== 'pending') return;
+
+    dataExport.status = 'processing';
+    await dataExport.save();
+
+    try {
+      const archive = await this.buildArchive(dataExport.userId);
+      const stamp = archive.exportedAt.toISOString().slice(0, 10);
+
+      const content =
+        dataExport.format === 'csv'
+          ? this.buildCsvArchive(archive)
+          : Buffer.from(JSON.stringify(archive, null, 2), 'utf8');
+      const extension = dataExport.format === 'csv' ? 'zip' : 'json';
+
+      await fs.mkdir(config.DATA_EXPORT_DIR, { recursive: true });
+      const filePath = resolve(join(config.DATA_EXPORT_DIR, `${dataExport._id}.${extension}`));
+      await fs.writeFile(filePath, content);
+
+      dataExport.status = 'completed';
+      dataExport.fileName = `personal-data-${stamp}.${extension}`;
+      dataExport.filePath = filePath;
+      dataExport.size = content.length;
+      dataExport.completedAt = new Date();
+      dataExport.expiresAt = new Date(
+        Date.now() + config.DATA_EXPORT_EXPIRE_HOURS * 60 * 60 * 1000
+      );
+      await dataExport.save();
+    } catch (error) {
+      dataExport.status = 'failed';
+      dataExport.error = error instanceof Error ? error.message : 'Unknown error';
+      await dataExport.save();
+    }
+  }
+
+  /**
+   * Collect everything stored about a user
+   */
+  async buildArchive(userId: mongoose.Types.ObjectId): Promise<PersonalDataArchive> {
+    const user = await User.findById(userId).select('+location');
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const connections = await Connection.find({ participants: userId })
+      .populate('participants', 'name username')
+      .sort({ createdAt: -1 });
+
+    const messages = await Message.find({
+      $or: [{ senderId: userId }, { receiverId: userId }],
+    }).sort({ createdAt: 1 });
+
+    const conversations = await Conversation.find({ userId: userId.toString() }).sort({
+      createdAt: 1,
+    });
+    const chatMessages = await ChatMessage.find({
+      conversationId: { $in: conversations.map((conversation) => conversation.conversationId) },
+    }).sort({ timestamp: 1 });
+
+    const endorsementsGiven = await Endorsement.find({ endorserId: userId })
+      .populate('endorseeId', 'name username')
+      .sort({ createdAt: 1 });
+    const endorsementsReceived = await Endorsement.find({ endorseeId: userId })
+      .populate('endorserId', 'name username')
+      .sort({ createdAt: 1 });
+
+    const recommendationsGiven = await Recommendation.find({ authorId: userId })
+      .populate('recipientId', 'name username')
+      .sort({ createdAt: 1 });
+    const recommendationsReceived = await Recommendation.find({ recipientId: userId })
+      .populate('authorId', 'name username')
+      .sort({ createdAt: 1 });
+
+    // Viewers of the user's profile are other people's data - only views made by the user
+    const profileViews = await ProfileView.find({ viewerId: userId })
+      .populate('viewedId', 'name username')
+      .sort({ day: 1 });
+
+    const stats = await statsService.getNetworkStats(userId);
+
+    return {
+      exportedAt: new Date(),
+      profile: {
+        id: user._id.toString(),
+        uuid: user.uuid,
+        username: user.username,
+        name: user.name,
+        email: user.email,
+        phone: user.phone,
+        avatar: user.avatar,
+        bio: user.bio,
+        profession: user.profession,
+        interests: user.interests,
+        privacy: user.privacy,
+        location: user.location
+          ? {
+              latitude: user.location.coordinates[1],
+              longitude: user.location.coordinates[0],
+              precision: user.location.precision,
+              updatedAt: user.location.updatedAt,
+            }
+          : undefined,
+        role: user.role,
+        verified: user.verified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        lastActive: user.lastActive,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      experience: user.experience.map((job) => ({
+        company: job.company,
+        title: job.title,
+        location: job.location,
+        description: job.description,
+        startDate: job.startDate,
+        endDate: job.endDate,
+        current: job.current,
+      })),
+      education: user.education.map((entry) => ({
+        school: entry.school,
+        degree: entry.degree,
+        fieldOfStudy: entry.fieldOfStudy,
+        description: entry.description,
+        startDate: entry.startDate,
+        endDate: entry.endDate,
+      })),
+      skills: user.skills.map((skill) => ({ name: skill.name, level: skill.level })),
+      endorsements: [
+        ...endorsementsGiven.map((endorsement) => ({
+          endorsement,
+          direction: 'given',
+          other: endorsement.endorseeId,
+        })),
+        ...endorsementsReceived.map((endorsement) => ({
+          endorsement,
+          direction: 'received',
+          other: endorsement.endorserId,
+        })),
+      ].map(({ endorsement, direction, other }) => {
+        const otherUser = other as unknown as { name?: string; username?: string } | null;
+
+        return {
+          direction,
+          type: endorsement.type,
+          name: endorsement.name,
+          otherUserName: otherUser?.name,
+          otherUserUsername: otherUser?.username,
+          createdAt: endorsement.createdAt,
+        };
+      }),
+      recommendations: [
+        ...recommendationsGiven.map((recommendation) => ({
+          recommendation,
+          direction: 'given',
+          other: recommendation.recipientId,
+        })),
+        ...recommendationsReceived.map((recommendation) => ({
+          recommendation,
+          direction: 'received',
+          other: recommendation.authorId,
+        })),
+      ].map(({ recommendation, direction, other }) => {
+        const otherUser = other as unknown as { name?: string; username?: string } | null;
+
+        return {
+          direction,
+          status: recommendation.status,
+          otherUserName: otherUser?.name,
+          otherUserUsername: otherUser?.username,
+          requestMessage: recommendation.requestMessage,
+          relationship: recommendation.relationship,
+          content: recommendation.content,
+          previousVersions: recommendation.history.length,
+          writtenAt: recommendation.writtenAt,
+          approvedAt: recommendation.approvedAt,
+          createdAt: recommendation.createdAt,
+        };
+      }),
+      profileViews: profileViews.map((view) => {
+        const viewed = view.viewedId as unknown as { name?: string; username?: string } | null;
+
+        return {
+          viewedUserName: viewed?.name,
+          viewedUserUsername: viewed?.username,
+          source: view.source,
+          day: view.day,
+          viewCount: view.viewCount,
+          lastViewedAt: view.lastViewedAt,
+        };
+      }),
+      connections: connections.map((connection) => {
+        const other = (connection.participants as unknown as Array<{
+          _id: mongoose.Types.ObjectId;
+          name?: string;
+          username?: string;
+        }>).find((participant) => participant._id.toString() !== userId.toString());
+
+        return {
+          id: connection.uuid,
+          status: connection.status,
+          initiatedByMe: connection.initiator.toString() === userId.toString(),
+          otherUserName: other?.name,
+          otherUserUsername: other?.username,
+          initialMessage: connection.initialMessage,
+          lastMessageAt: connection.lastMessageAt,
+          createdAt: connection.createdAt,
+          updatedAt: connection.updatedAt,
+        };
+      }),
+      messages: messages.map((message) => ({
+        id: message.uuid,
+        connectionId: message.connectionId.toString(),
+        direction: message.senderId.toString() === userId.toString() ? 'sent' : 'received',
+        content: message.content,
+        messageType: message.messageType,
+        status: message.status,
+        readAt: message.readAt,
+        createdAt: message.createdAt,
+      })),
+      conversations: conversations.map((conversation) => ({
+        id: conversation.conversationId,
+        title: conversation.title,
+        messageCount: conversation.messageCount,
+        isActive: conversation.isActive,
+        lastMessageAt: conversation.lastMessageAt,
+        createdAt: conversation.createdAt,
+      })),
+      chatMessages: chatMessages.map((chatMessage) => ({
+        conversationId: chatMessage.conversationId,
+        senderType: chatMessage.senderType,
+        messageType: chatMessage.messageType,
+        message: chatMessage.message,
+        timestamp: chatMessage.timestamp,
+      })),
+      stats,
+    };
+  }
+
+  /**
+   * Remove all exports of a user, including their files
+   */
+  async deleteUserExports(userId: mongoose.Types.ObjectId): Promise<void> {
+    const exports = await DataExport.find({ userId }).select('+filePath');
+    await this.removeExports(exports);
+  }
+
+  /**
+   * Remove exports whose download window is over
+   * @returns Number of exports removed
+   */
+  async cleanupExpiredExports(): Promise<number> {
+    await this.failStaleExports();
+
+    const expired = await DataExport.find({ expiresAt: { $lte: new Date() } }).select('+filePath');
+    await this.removeExports(expired);
+    return expired.length;
+  }
+
+  /**
+   * Run the cleanup job periodically (long-running server only)
+   */
+  startCleanupJob(intervalMs = CLEANUP_INTERVAL_MS): void {
+    if (this.cleanupTimer) return;
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupExpiredExports().catch((err) =>
+        console.error('Data export cleanup error:', err)
+      );
+    }, intervalMs);
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Mark pending or processing exports that ran past the timeout as failed
+   * @returns Number of exports marked as failed
+   */
+  async failStaleExports(filter: mongoose.FilterQuery<IDataExport> = {}): Promise<number> {
+    const cutoff = new Date(Date.now() - config.DATA_EXPORT_TIMEOUT_MINUTES * 60 * 1000);
+
+    const result = await DataExport.updateMany(
+      { ...filter, status: { $in: ['pending', 'processing'] }, updatedAt: { $lt: cutoff } },
+      {
+        $set: {
+          status: 'failed',
+          error: 'Export timed out',
+          // Removed with its partial file once the download window would have ended
+          expiresAt: new Date(Date.now() + config.DATA_EXPORT_EXPIRE_HOURS * 60 * 60 * 1000),
+        },
+      }
+    );
+
+    return result.modifiedCount;
+  }
+
+  private buildCsvArchive(archive: PersonalDataArchive): Buffer {
+    const { stats } = archive;
+
+    return createZip(
+      [
+        {
+          name: 'profile.csv',
+          content: toCsv([archive.profile], Object.keys(archive.profile)),
+        },
+        {
+          name: 'experience.csv',
+          content: toCsv(archive.experience, [
+            'company',
+            'title',
+            'location',
+            'description',
+            'startDate',
+            'endDate',
+            'current',
+          ]),
+        },
+        {
+          name: 'education.csv',
+          content: toCsv(archive.education, [
+            'school',
+            'degree',
+            'fieldOfStudy',
+            'description',
+            'startDate',
+            'endDate',
+          ]),
+        },
+        {
+          name: 'skills.csv',
+          content: toCsv(archive.skills, ['name', 'level']),
+        },
+        {
+          name: 'endorsements.csv',
+          content: toCsv(archive.endorsements, [
+            'direction',
+            'type',
+            'name',
+            'otherUserName',
+            'otherUserUsername',
+            'createdAt',
+          ]),
+        },
+        {
+          name: 'recommendations.csv',
+          content: toCsv(archive.recommendations, [
+            'direction',
+            'status',
+            'otherUserName',
+            'otherUserUsername',
+            'requestMessage',
+            'relationship',
+            'content',
+            'previousVersions',
+            'writtenAt',
+            'approvedAt',
+            'createdAt',
+          ]),
+        },
+        {
+          name: 'profile_views.csv',
+          content: toCsv(archive.profileViews, [
+            'viewedUserName',
+            'viewedUserUsername',
+            'source',
+            'day',
+            'viewCount',
+            'lastViewedAt',
+          ]),
+        },
+        {
+          name: 'connections.csv',
+          content: toCsv(archive.connections, [
+            'id',
+            'status',
+            'initiatedByMe',
+            'otherUserName',
+            'otherUserUsername',
+            'initialMessage',
+            'lastMessageAt',
+            'createdAt',
+            'updatedAt',
+          ]),
+        },
+        {
+          name: 'messages.csv',
+          content: toCsv(archive.messages, [
+            'id',
+            'connectionId',
+            'direction',
+            'content',
+            'messageType',
+            'status',
+            'readAt',
+            'createdAt',
+          ]),
+        },
+        {
+          name: 'chatbot_conversations.csv',
+          content: toCsv(archive.conversations, [
+            'id',
+            'title',
+            'messageCount',
+            'isActive',
+            'lastMessageAt',
+            'createdAt',
+          ]),
+        },
+        {
+          name: 'chatbot_messages.csv',
+          content: toCsv(archive.chatMessages, [
+            'conversationId',
+            'senderType',
+            'messageType',
+            'message',
+            'timestamp',
+          ]),
+        },
+        {
+          name: 'stats.csv',
+          content: toCsv(
+            [
+              { metric: 'connections.total', value: stats.connections.total },
+              { metric: 'connections.pending', value: stats.connections.pending },
+              { metric: 'connections.recent', value: stats.connections.recent },
+              { metric: 'messages.sent', value: stats.messages.sent },
+              { metric: 'messages.received', value: stats.messages.received },
+              { metric: 'messages.total', value: stats.messages.total },
+              { metric: 'messages.unread', value: stats.messages.unread },
+              { metric: 'profileViews.total', value: stats.profileViews.total },
+              { metric: 'profileViews.last7Days', value: stats.profileViews.last7Days },
+              { metric: 'profileViews.last30Days', value: stats.profileViews.last30Days },
+              { metric: 'profileViews.uniqueViewers', value: stats.profileViews.uniqueViewers },
+              { metric: 'matchScore', value: stats.matchScore },
+            ],
+            ['metric', 'value']
+          ),
+        },
+      ],
+      archive.exportedAt
+    );
+  }
+
+  private async removeExports(exports: IDataExport[]): Promise<void> {
+    for (const dataExport of exports) {
+      if (dataExport.filePath) {
+        await fs.rm(dataExport.filePath, { force: true });
+      }
+    }
+
+    await DataExport.deleteMany({ _id: { $in: exports.map((dataExport) => dataExport._id) } });
+  }
+}
+
+export default new ExportService();
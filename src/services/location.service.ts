@@ -0,0 +1,228 @@
+import mongoose from 'mongoose';
+import { config } from '@config/env';
+import {
+  DEFAULT_PRIVACY_SETTINGS,
+  DISCOVERABLE_USER_FILTER,
+  IUser,
+  LocationPrecision,
+  User,
+  UserLocation,
+} from '@models/User';
+import privacyService from '@services/privacy.service';
+import { EARTH_RADIUS_KM, isValidCoordinates, roundCoordinate } from '@utils/geo';
+
+export class LocationError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'LocationError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface NearbyOptions {
+  radiusKm: number;
+  limit: number;
+  // Only consider these users (e.g. those online)
+  userIds?: string[];
+}
+
+export interface NearbyUser {
+  userId: string;
+  username?: string;
+  name?: string;
+  profession?: string;
+  avatar?: string;
+  verified?: boolean;
+  location: {
+    latitude: number;
+    longitude: number;
+    precision: LocationPrecision;
+  };
+  // Meters, rounded up to what the coarser of the two locations allows
+  distance: number;
+  isConnected: boolean;
+}
+
+export interface LocationUpdateResult {
+  location: UserLocation;
+  // False for users hidden from discovery: stored, but not shown to others
+  visible: boolean;
+}
+
+// Decimal places kept for each precision (4 is about 10 m, 2 about 1 km, 1 about 10 km)
+const PRECISION_DECIMALS: Record<LocationPrecision, number> = {
+  precise: 4,
+  approximate: 2,
+  city: 1,
+};
+
+// Distance steps matching each precision
+const DISTANCE_STEP_METERS: Record<LocationPrecision, number> = {
+  precise: 10,
+  approximate: 1000,
+  city: 10000,
+};
+
+const NEARBY_FIELDS = {
+  username: 1,
+  name: 1,
+  profession: 1,
+  avatar: 1,
+  verified: 1,
+  privacy: 1,
+  location: 1,
+  distance: 1,
+};
+
+class LocationService {
+  /**
+   * Store the user's location, rounded to their chosen precision
+   * @returns null when the user does not share their location
+   */
+  async update(
+    userId: mongoose.Types.ObjectId | string,
+    latitude: unknown,
+    longitude: unknown
+  ): Promise<LocationUpdateResult | null> {
+    if (!isValidCoordinates(latitude, longitude)) {
+      throw new LocationError('Please provide a valid latitude and longitude');
+    }
+
+    const user = await User.findById(userId).select('privacy suspended deletedAt');
+    if (!user || user.suspended || user.deletedAt || !user.privacy?.shareLocation) {
+      return null;
+    }
+
+    const precision = user.privacy.locationPrecision || DEFAULT_PRIVACY_SETTINGS.locationPrecision;
+    const decimals = PRECISION_DECIMALS[precision];
+    const location: UserLocation = {
+      type: 'Point',
+      coordinates: [
+        roundCoordinate(longitude as number, decimals),
+        roundCoordinate(latitude as number, decimals),
+      ],
+      precision,
+      updatedAt: new Date(),
+    };
+
+    await User.updateOne({ _id: user._id }, { $set: { location } });
+
+    return { location, visible: !user.privacy.hiddenFromDiscovery };
+  }
+
+  async clear(userId: mongoose.Types.ObjectId | string): Promise<void> {
+    await User.updateOne({ _id: userId }, { $unset: { location: 1 } });
+  }
+
+  /**
+   * The user's location if they share it and it is recent
+   */
+  async getCurrent(userId: mongoose.Types.ObjectId | string): Promise<UserLocation | null> {
+    const user = await User.findById(userId).select('+location privacy');
+
+    if (!user?.privacy?.shareLocation || !user.location) return null;
+    return user.location.updatedAt >= this.getCutoff() ? user.location : null;
+  }
+
+  /**
+   * Query condition for users sharing a recent location within the radius
+   */
+  withinRadiusFilter(center: UserLocation, radiusKm: number): mongoose.FilterQuery<IUser> {
+    return {
+      'privacy.shareLocation': true,
+      'location.updatedAt': { $gte: this.getCutoff() },
+      location: {
+        $geoWithin: { $centerSphere: [center.coordinates, radiusKm / EARTH_RADIUS_KM] },
+      },
+    };
+  }
+
+  /**
+   * Discoverable users sharing a recent location near the center, closest first.
+   * Blocked users and the viewer are left out.
+   */
+  async findNearby(
+    viewerId: mongoose.Types.ObjectId,
+    center: UserLocation,
+    options: NearbyOptions
+  ): Promise<NearbyUser[]> {
+    const [connectedIds, blockedIds] = await Promise.all([
+      privacyService.getConnectedUserIds(viewerId),
+      privacyService.getBlockedUserIds(viewerId),
+    ]);
+
+    const idFilter: Record<string, unknown> = { $nin: [viewerId, ...blockedIds] };
+    if (options.userIds) {
+      idFilter.$in = options.userIds
+        .filter((id) => mongoose.Types.ObjectId.isValid(id))
+        .map((id) => new mongoose.Types.ObjectId(id));
+    }
+
+    const rows = await User.aggregate([
+      {
+        $geoNear: {
+          near: { type: 'Point', coordinates: center.coordinates },
+          key: 'location',
+          distanceField: 'distance',
+          maxDistance: options.radiusKm * 1000,
+          spherical: true,
+          query: {
+            ...DISCOVERABLE_USER_FILTER,
+            _id: idFilter,
+            'privacy.shareLocation': true,
+            'location.updatedAt': { $gte: this.getCutoff() },
+          },
+        },
+      },
+      { $limit: options.limit },
+      { $project: NEARBY_FIELDS },
+    ]);
+
+    return rows.map(({ distance, ...row }) => {
+      const user = privacyService.redact(
+        User.hydrate(row),
+        privacyService.relationFor(viewerId, row._id as mongoose.Types.ObjectId, connectedIds)
+      );
+      const location = row.location as UserLocation;
+      const userId = user._id.toString();
+
+      return {
+        userId,
+        username: user.username,
+        name: user.name,
+        profession: user.profession,
+        avatar: user.avatar,
+        verified: user.verified,
+        location: this.format(location),
+        distance: this.roundDistance(distance as number, center.precision, location.precision),
+        isConnected: connectedIds.has(userId),
+      };
+    });
+  }
+
+  format(location: UserLocation): NearbyUser['location'] {
+    return {
+      latitude: location.coordinates[1],
+      longitude: location.coordinates[0],
+      precision: location.precision,
+    };
+  }
+
+  /**
+   * Round up to the step of the coarser precision, so distances never
+   * reveal more than the stored locations do
+   */
+  roundDistance(meters: number, a: LocationPrecision, b: LocationPrecision): number {
+    const step = Math.max(DISTANCE_STEP_METERS[a], DISTANCE_STEP_METERS[b]);
+    return Math.max(step, Math.ceil(meters / step) * step);
+  }
+
+  // Locations older than this are ignored
+  private getCutoff(): Date {
+    return new Date(Date.now() - config.LOCATION_MAX_AGE_MINUTES * 60 * 1000);
+  }
+}
+
+export default new LocationService();
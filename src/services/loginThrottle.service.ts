@@ -0,0 +1,194 @@
+import mongoose from 'mongoose';
+import { config } from '@config/env';
+import { LoginThrottle, ILoginThrottle, LoginThrottleScope } from '@models/LoginThrottle';
+import { SecurityEvent } from '@models/SecurityEvent';
+
+export interface LockStatus {
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+export interface FailureContext {
+  email: string;
+  ip?: string;
+  userAgent?: string;
+  userId?: mongoose.Types.ObjectId;
+}
+
+// Failures allowed before delays kick in
+const FREE_ATTEMPTS = 2;
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 4000;
+
+class LoginThrottleService {
+  /**
+   * Check whether the account or the IP is currently locked out
+   */
+  async getLockStatus(email: string, ip?: string): Promise<LockStatus> {
+    const records = await LoginThrottle.find({
+      $or: this.buildKeys(email, ip),
+      lockedUntil: { $gt: new Date() },
+    });
+
+    if (records.length === 0) {
+      return { locked: false, retryAfterSeconds: 0 };
+    }
+
+    const lockedUntil = Math.max(...records.map((record) => record.lockedUntil!.getTime()));
+
+    return {
+      locked: true,
+      retryAfterSeconds: Math.ceil((lockedUntil - Date.now()) / 1000),
+    };
+  }
+
+  /**
+   * Record a failed login for the account and the IP, locking either when over the limit
+   * @returns Delay (ms) to wait before answering, growing with repeated failures
+   */
+  async registerFailure(context: FailureContext): Promise<number> {
+    const account = await this.incrementFailures('account', this.normalizeEmail(context.email));
+    let failedCount = account.failedCount;
+
+    if (account.justLocked && context.userId) {
+      await SecurityEvent.create({
+        userId: context.userId,
+        type: 'account_locked',
+        ip: context.ip,
+        userAgent: context.userAgent,
+        metadata: {
+          failedAttempts: account.failedCount,
+          lockedUntil: account.record.lockedUntil,
+        },
+      });
+    }
+
+    if (context.ip) {
+      const ip = await this.incrementFailures('ip', context.ip);
+      failedCount = Math.max(failedCount, ip.failedCount);
+
+      if (ip.justLocked) {
+        console.warn(`⚠️ Login lockout for IP ${context.ip} after ${ip.failedCount} failures`);
+      }
+    }
+
+    return this.getDelay(failedCount);
+  }
+
+  /**
+   * Clear the account's failure counter after a successful login
+   */
+  async registerSuccess(email: string): Promise<void> {
+    await this.clearAccount(email);
+  }
+
+  /**
+   * Remove any failures and lockout on an account (e.g. after a password reset)
+   */
+  async clearAccount(email: string): Promise<void> {
+    await LoginThrottle.deleteOne({ scope: 'account', key: this.normalizeEmail(email) });
+  }
+
+  /**
+   * Wait before answering a failed attempt
+   */
+  async delay(ms: number): Promise<void> {
+    if (ms <= 0) return;
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private async incrementFailures(
+    scope: LoginThrottleScope,
+    key: string
+  ): Promise<{ record: ILoginThrottle; failedCount: number; justLocked: boolean }> {
+    const now = Date.now();
+    const windowMs = config.LOGIN_FAILURE_WINDOW_MINUTES * 60 * 1000;
+    const lockoutMs = config.LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+    const maxFailures =
+      scope === 'account' ? config.LOGIN_MAX_ACCOUNT_FAILURES : config.LOGIN_MAX_IP_FAILURES;
+
+    // Start counting again once the previous lockout or failure window is over
+    await LoginThrottle.updateOne(
+      {
+        scope,
+        key,
+        $or: [
+          { lockedUntil: { $lte: new Date(now) } },
+          { lockedUntil: { $exists: false }, lastFailedAt: { $lt: new Date(now - windowMs) } },
+        ],
+      },
+      { $set: { failedCount: 0 }, $unset: { lockedUntil: 1 } }
+    );
+
+    // Atomic, so concurrent failures are all counted
+    let record = await this.incrementRecord(scope, key, now, windowMs);
+
+    let justLocked = false;
+    if (!record.lockedUntil && record.failedCount >= maxFailures) {
+      const lockedUntil = new Date(now + lockoutMs);
+
+      // Only the request that crosses the limit sets the lockout
+      const locked = await LoginThrottle.findOneAndUpdate(
+        { _id: record._id, lockedUntil: { $exists: false } },
+        { $set: { lockedUntil }, $max: { expiresAt: lockedUntil } },
+        { new: true }
+      );
+
+      if (locked) {
+        record = locked;
+        justLocked = true;
+      }
+    }
+
+    return { record, failedCount: record.failedCount, justLocked };
+  }
+
+  private async incrementRecord(
+    scope: LoginThrottleScope,
+    key: string,
+    now: number,
+    windowMs: number
+  ): Promise<ILoginThrottle> {
+    const update = () =>
+      LoginThrottle.findOneAndUpdate(
+        { scope, key },
+        {
+          $inc: { failedCount: 1 },
+          $set: { lastFailedAt: new Date(now) },
+          $max: { expiresAt: new Date(now + windowMs) },
+        },
+        { upsert: true, new: true }
+      );
+
+    try {
+      return (await update())!;
+    } catch (error) {
+      // Two first failures raced to create the record - the retry updates it
+      if ((error as { code?: number }).code !== 11000) throw error;
+      return (await update())!;
+    }
+  }
+
+  private getDelay(failedCount: number): number {
+    if (failedCount <= FREE_ATTEMPTS) return 0;
+    return Math.min(BASE_DELAY_MS * 2 ** (failedCount - FREE_ATTEMPTS - 1), MAX_DELAY_MS);
+  }
+
+  private buildKeys(email: string, ip?: string): Array<{ scope: LoginThrottleScope; key: string }> {
+    const keys: Array<{ scope: LoginThrottleScope; key: string }> = [
+      { scope: 'account', key: this.normalizeEmail(email) },
+    ];
+
+    if (ip) {
+      keys.push({ scope: 'ip', key: ip });
+    }
+
+    return keys;
+  }
+
+  private normalizeEmail(email: string): string {
+    return String(email).trim().toLowerCase();
+  }
+}
+
+export default new LoginThrottleService();
@@ -0,0 +1,93 @@
+import { config } from '@config/env';
+import { IUser, User } from '@models/User';
+import { MagicLinkToken } from '@models/MagicLinkToken';
+import mailService from '@services/mail.service';
+import accountService from '@services/account.service';
+import { generateRandomToken, hashToken } from '@utils/token';
+
+// Minimum time between two links sent to the same address
+const MAGIC_LINK_COOLDOWN_MS = 60 * 1000;
+
+export interface MagicLinkResult {
+  user: IUser;
+  created: boolean;
+}
+
+class MagicLinkService {
+  /**
+   * Email a single-use login link
+   * @returns false when a link was sent too recently and nothing was sent
+   */
+  async sendLink(email: string, ip?: string): Promise<boolean> {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const recent = await MagicLinkToken.exists({
+      email: normalizedEmail,
+      createdAt: { $gt: new Date(Date.now() - MAGIC_LINK_COOLDOWN_MS) },
+    });
+    if (recent) {
+      return false;
+    }
+
+    const token = generateRandomToken();
+    await MagicLinkToken.create({
+      email: normalizedEmail,
+      tokenHash: hashToken(token),
+      ip,
+      expiresAt: new Date(Date.now() + config.MAGIC_LINK_EXPIRE_MINUTES * 60 * 1000),
+    });
+
+    await mailService.sendMagicLinkEmail(normalizedEmail, token);
+    return true;
+  }
+
+  /**
+   * Invalidate every unused link sent to an address (e.g. after an email change)
+   */
+  async revokeLinks(email: string): Promise<void> {
+    await MagicLinkToken.deleteMany({ email: email.trim().toLowerCase(), usedAt: { $exists: false } });
+  }
+
+  /**
+   * Consume a login link, creating the account on first use
+   * @returns null when the token is invalid, expired or already used
+   */
+  async consumeLink(token: string): Promise<MagicLinkResult | null> {
+    // Mark as used atomically so a link can never be redeemed twice
+    const magicLink = await MagicLinkToken.findOneAndUpdate(
+      {
+        tokenHash: hashToken(String(token)),
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { usedAt: new Date() },
+      { new: true }
+    );
+
+    if (!magicLink) {
+      return null;
+    }
+
+    const existingUser = await User.findOne({ email: magicLink.email });
+
+    if (existingUser) {
+      // Opening the link proves ownership of the address - lock out whoever registered it
+      if (!existingUser.verified) {
+        await accountService.claimUnverifiedAccount(existingUser);
+      }
+
+      return { user: existingUser, created: false };
+    }
+
+    // Passwordless accounts get a random password; "forgot password" sets a real one
+    const user = await User.create({
+      email: magicLink.email,
+      password: generateRandomToken(),
+      verified: true,
+    });
+
+    return { user, created: true };
+  }
+}
+
+export default new MagicLinkService();
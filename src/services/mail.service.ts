@@ -0,0 +1,189 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { config } from '@config/env';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail transport delivers a fully built message.
+ * Implement this interface to plug in a real provider (SMTP, SES, ...).
+ */
+export interface MailTransport {
+  send: (_message: MailMessage & { from: string }) => Promise<void>;
+}
+
+/**
+ * Logs messages to the console (default for development)
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log('📧 ========================================');
+    console.log(`   From: ${message.from}`);
+    console.log(`   To: ${message.to}`);
+    console.log(`   Subject: ${message.subject}`);
+    console.log('   ----------------------------------------');
+    console.log(message.text);
+    console.log('   ========================================');
+  }
+}
+
+/**
+ * Writes each message as a JSON file so it can be inspected locally or by tests
+ */
+export class FileTransport implements MailTransport {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const fileName = `${Date.now()}_${safeRecipient}.json`;
+
+    await fs.writeFile(
+      join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+      'utf8'
+    );
+  }
+}
+
+class MailService {
+  private transport: MailTransport;
+
+  constructor() {
+    this.transport = this.createTransport();
+  }
+
+  /**
+   * Replace the active transport (e.g. with a provider-backed one)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send a message through the active transport
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: config.MAIL_FROM });
+  }
+
+  /**
+   * Send password reset link
+   */
+  async sendPasswordResetEmail(to: string, token: string): Promise<void> {
+    const link = `${config.APP_URL}/reset-password?token=${token}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      text: [
+        'We received a request to reset your password.',
+        `Use the link below within ${config.PASSWORD_RESET_EXPIRE_MINUTES} minutes to choose a new one:`,
+        '',
+        link,
+        '',
+        "If you didn't request this, you can safely ignore this email.",
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send email verification code and link
+   */
+  async sendVerificationEmail(to: string, code: string): Promise<void> {
+    const link = `${config.APP_URL}/verify-email?email=${encodeURIComponent(to)}&code=${code}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your email address',
+      text: [
+        'Welcome! Please confirm your email address.',
+        '',
+        `Your verification code is: ${code}`,
+        '',
+        'Or open this link to verify:',
+        link,
+        '',
+        "If you didn't create an account, you can safely ignore this email.",
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send passwordless login link
+   */
+  async sendMagicLinkEmail(to: string, token: string): Promise<void> {
+    const link = `${config.APP_URL}/magic-link?token=${token}`;
+
+    await this.send({
+      to,
+      subject: 'Your sign-in link',
+      text: [
+        'Use the link below to sign in. It can only be used once.',
+        `The link expires in ${config.MAGIC_LINK_EXPIRE_MINUTES} minutes:`,
+        '',
+        link,
+        '',
+        "If you didn't request this, you can safely ignore this email.",
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send confirmation link to a new email address
+   */
+  async sendEmailChangeConfirmation(to: string, token: string): Promise<void> {
+    const link = `${config.APP_URL}/confirm-email-change?token=${token}`;
+
+    await this.send({
+      to,
+      subject: 'Confirm your new email address',
+      text: [
+        'You asked to use this address for your account.',
+        `Open the link below within ${config.EMAIL_CHANGE_EXPIRE_MINUTES} minutes to confirm the change:`,
+        '',
+        link,
+        '',
+        "If you didn't request this, you can safely ignore this email.",
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Let the current address know an email change was requested
+   */
+  async sendEmailChangeNotice(to: string, newEmail: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your email address is being changed',
+      text: [
+        `A request was made to change your account email to ${newEmail}.`,
+        'The change only takes effect once the new address is confirmed.',
+        '',
+        "If this wasn't you, sign in, cancel the change and reset your password:",
+        `${config.APP_URL}/forgot-password`,
+      ].join('\n'),
+    });
+  }
+
+  private createTransport(): MailTransport {
+    switch (config.MAIL_TRANSPORT) {
+      case 'file':
+        return new FileTransport(config.MAIL_FILE_DIR);
+      default:
+        return new ConsoleTransport();
+    }
+  }
+}
+
+export default new MailService();
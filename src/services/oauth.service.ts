@@ -0,0 +1,347 @@
+import mongoose from 'mongoose';
+import { config, OAuthProviderConfig } from '@config/env';
+import { IUser, User } from '@models/User';
+import { OAuthState, OAuthStatePurpose } from '@models/OAuthState';
+import {
+  createCodeChallenge,
+  generateCodeVerifier,
+  generateRandomToken,
+  hashToken,
+} from '@utils/token';
+
+// Time allowed between starting the flow and the provider's callback
+const STATE_EXPIRE_MS = 10 * 60 * 1000;
+
+/**
+ * Error caused by the provider or the client request (not a server fault)
+ */
+export class OAuthError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'OAuthError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface OAuthProfile {
+  provider: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  avatar?: string;
+  profession?: string;
+}
+
+export interface OAuthLoginResult {
+  user: IUser;
+  created: boolean;
+}
+
+type Claims = Record<string, unknown>;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+class OAuthService {
+  /**
+   * Providers that are configured and can be used
+   */
+  getProviders(): Array<Pick<OAuthProviderConfig, 'id' | 'name'>> {
+    return config.OAUTH_PROVIDERS.map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * Start an authorization code + PKCE flow
+   * @returns URL to send the user to
+   */
+  async createAuthorizationUrl(
+    providerId: string,
+    purpose: OAuthStatePurpose,
+    userId?: mongoose.Types.ObjectId
+  ): Promise<string> {
+    const provider = this.getProvider(providerId);
+    const state = generateRandomToken();
+    const codeVerifier = generateCodeVerifier();
+
+    await OAuthState.create({
+      stateHash: hashToken(state),
+      provider: provider.id,
+      purpose,
+      userId,
+      codeVerifier,
+      redirectUri: provider.redirectUri,
+      expiresAt: new Date(Date.now() + STATE_EXPIRE_MS),
+    });
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: provider.redirectUri,
+      scope: provider.scope,
+      state,
+      code_challenge: createCodeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+    });
+
+    const separator = provider.authorizationUrl.includes('?') ? '&' : '?';
+    return `${provider.authorizationUrl}${separator}${params.toString()}`;
+  }
+
+  /**
+   * Validate the callback, exchange the code and load the provider profile
+   */
+  async handleCallback(
+    providerId: string,
+    code: string,
+    state: string,
+    purpose: OAuthStatePurpose,
+    userId?: mongoose.Types.ObjectId
+  ): Promise<OAuthProfile> {
+    const provider = this.getProvider(providerId);
+
+    // States are single-use
+    const storedState = await OAuthState.findOneAndDelete({
+      stateHash: hashToken(String(state)),
+      provider: provider.id,
+      purpose,
+      expiresAt: { $gt: new Date() },
+    });
+
+    if (!storedState) {
+      throw new OAuthError('Authorization request is invalid or has expired');
+    }
+
+    if (purpose === 'link' && storedState.userId?.toString() !== userId?.toString()) {
+      throw new OAuthError('Authorization request was started by another account', 403);
+    }
+
+    const accessToken = await this.exchangeCode(
+      provider,
+      code,
+      storedState.codeVerifier,
+      storedState.redirectUri
+    );
+    const claims = await this.fetchJson(provider.userInfoUrl, accessToken);
+    const profile = this.mapProfile(provider, claims);
+
+    // Some providers (GitHub) only return verified emails from a separate endpoint
+    if (provider.emailsUrl && (!profile.email || !profile.emailVerified)) {
+      const emails = await this.fetchJson(provider.emailsUrl, accessToken);
+      const primary = Array.isArray(emails)
+        ? (emails as Claims[]).find((entry) => entry.primary && entry.verified)
+        : undefined;
+
+      if (primary) {
+        profile.email = asString(primary.email);
+        profile.emailVerified = true;
+      }
+    }
+
+    return profile;
+  }
+
+  /**
+   * Find the user for a provider profile, linking by verified email or creating the account
+   */
+  async findOrCreateUser(profile: OAuthProfile): Promise<OAuthLoginResult> {
+    const linkedUser = await User.findOne({
+      identities: { $elemMatch: { provider: profile.provider, subject: profile.subject } },
+    });
+
+    if (linkedUser) {
+      return { user: linkedUser, created: false };
+    }
+
+    if (!profile.email) {
+      throw new OAuthError('The provider did not share an email address');
+    }
+
+    const existingUser = await User.findOne({ email: profile.email.toLowerCase() });
+
+    if (existingUser) {
+      // Only trust the address when the provider has verified it
+      if (!profile.emailVerified) {
+        throw new OAuthError(
+          'An account with this email already exists. Sign in and link the provider from your settings',
+          409
+        );
+      }
+
+      // Whoever registered an unverified address may not own it - never hand them a login
+      if (!existingUser.verified) {
+        throw new OAuthError(
+          'An account with this email already exists but its email is not verified. Verify it or sign in with an email link, then link the provider from your settings',
+          409
+        );
+      }
+
+      this.addIdentity(existingUser, profile);
+      this.prefillProfile(existingUser, profile);
+      await existingUser.save();
+
+      return { user: existingUser, created: false };
+    }
+
+    // Provider-only accounts get a random password; "forgot password" sets a real one
+    const user = new User({
+      email: profile.email,
+      password: generateRandomToken(),
+      verified: profile.emailVerified,
+    });
+    this.addIdentity(user, profile);
+    this.prefillProfile(user, profile);
+    await user.save();
+
+    return { user, created: true };
+  }
+
+  /**
+   * Link a provider account to an existing user
+   */
+  async linkIdentity(user: IUser, profile: OAuthProfile): Promise<void> {
+    const owner = await User.findOne({
+      identities: { $elemMatch: { provider: profile.provider, subject: profile.subject } },
+    }).select('_id');
+
+    if (owner && !owner._id.equals(user._id)) {
+      throw new OAuthError('This account is already linked to another user', 409);
+    }
+
+    // Replace any previous account from the same provider
+    user.identities = user.identities.filter((identity) => identity.provider !== profile.provider);
+    this.addIdentity(user, profile);
+    this.prefillProfile(user, profile);
+    await user.save();
+  }
+
+  /**
+   * Remove a linked provider
+   * @returns false when the provider was not linked
+   */
+  async unlinkIdentity(user: IUser, providerId: string): Promise<boolean> {
+    const remaining = user.identities.filter((identity) => identity.provider !== providerId);
+
+    if (remaining.length === user.identities.length) {
+      return false;
+    }
+
+    user.identities = remaining;
+    await user.save();
+    return true;
+  }
+
+  private getProvider(providerId: string): OAuthProviderConfig {
+    const provider = config.OAUTH_PROVIDERS.find((entry) => entry.id === providerId);
+
+    if (!provider) {
+      throw new OAuthError(`Unknown or unconfigured provider: ${providerId}`, 404);
+    }
+
+    return provider;
+  }
+
+  private async exchangeCode(
+    provider: OAuthProviderConfig,
+    code: string,
+    codeVerifier: string,
+    redirectUri: string
+  ): Promise<string> {
+    const response = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: String(code),
+        redirect_uri: redirectUri,
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        code_verifier: codeVerifier,
+      }),
+    });
+
+    const body = (await response.json().catch(() => ({}))) as Claims;
+    const accessToken = asString(body.access_token);
+
+    if (!response.ok || !accessToken) {
+      const reason = asString(body.error_description) || asString(body.error) || response.statusText;
+      throw new OAuthError(`Could not exchange authorization code: ${reason}`, 502);
+    }
+
+    return accessToken;
+  }
+
+  private async fetchJson(url: string, accessToken: string): Promise<unknown> {
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/json',
+        'User-Agent': 'synkicycle-api',
+      },
+    });
+
+    if (!response.ok) {
+      throw new OAuthError(`Provider request failed with status ${response.status}`, 502);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Normalize standard OIDC claims and common provider-specific fields
+   */
+  private mapProfile(provider: OAuthProviderConfig, data: unknown): OAuthProfile {
+    const claims = (data || {}) as Claims;
+    const subject = asString(claims.sub) || (claims.id !== undefined ? String(claims.id) : undefined);
+
+    if (!subject) {
+      throw new OAuthError('The provider did not return a user id', 502);
+    }
+
+    const fullName = [asString(claims.given_name), asString(claims.family_name)]
+      .filter(Boolean)
+      .join(' ');
+
+    return {
+      provider: provider.id,
+      subject,
+      email: asString(claims.email)?.toLowerCase(),
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: asString(claims.name) || fullName || asString(claims.login),
+      avatar: asString(claims.picture) || asString(claims.avatar_url),
+      profession:
+        asString(claims.profession) || asString(claims.job_title) || asString(claims.headline),
+    };
+  }
+
+  private addIdentity(user: IUser, profile: OAuthProfile): void {
+    user.identities.push({
+      provider: profile.provider,
+      subject: profile.subject,
+      email: profile.email,
+      linkedAt: new Date(),
+    });
+  }
+
+  /**
+   * Fill empty profile fields from provider claims - never overwrites user input
+   */
+  private prefillProfile(user: IUser, profile: OAuthProfile): void {
+    if (!user.name && profile.name && profile.name.length >= 2) {
+      user.name = profile.name.slice(0, 50);
+    }
+    if (!user.avatar && profile.avatar) {
+      user.avatar = profile.avatar;
+    }
+    if (!user.profession && profile.profession) {
+      user.profession = profile.profession;
+    }
+  }
+}
+
+export default new OAuthService();
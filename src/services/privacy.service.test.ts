@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import privacyService from '@services/privacy.service';
+import { PrivacySettings, User } from '@models/User';
+
+const buildUser = (privacy: Partial<PrivacySettings> = {}) =>
+  new User({
+    email: 'ada@example.com',
+    name: 'Ada Lovelace',
+    phone: '+44 20 7946 0000',
+    bio: 'Analytical engines',
+    interests: ['Mathematics'],
+    experience: [{ company: 'Analytical Society', title: 'Programmer' }],
+    education: [{ school: 'Home', degree: 'Tutoring' }],
+    privacy,
+  });
+
+describe('privacyService.canView', () => {
+  it('lets users see all of their own fields', () => {
+    expect(privacyService.canView({ phone: 'private' }, 'phone', 'self')).toBe(true);
+  });
+
+  it('shows public fields to everyone', () => {
+    expect(privacyService.canView({ bio: 'public' }, 'bio', 'connection')).toBe(true);
+    expect(privacyService.canView({ bio: 'public' }, 'bio', 'other')).toBe(true);
+  });
+
+  it('shows connection-only fields to connections only', () => {
+    expect(privacyService.canView({ email: 'connections' }, 'email', 'connection')).toBe(true);
+    expect(privacyService.canView({ email: 'connections' }, 'email', 'other')).toBe(false);
+  });
+
+  it('hides private fields from everyone else', () => {
+    expect(privacyService.canView({ interests: 'private' }, 'interests', 'connection')).toBe(false);
+    expect(privacyService.canView({ interests: 'private' }, 'interests', 'other')).toBe(false);
+  });
+
+  it('falls back to the defaults for missing settings', () => {
+    expect(privacyService.canView(undefined, 'phone', 'connection')).toBe(false);
+    expect(privacyService.canView(undefined, 'email', 'connection')).toBe(true);
+    expect(privacyService.canView(undefined, 'email', 'other')).toBe(false);
+    expect(privacyService.canView({}, 'bio', 'other')).toBe(true);
+  });
+});
+
+describe('privacyService.redact', () => {
+  it('keeps everything for the owner', () => {
+    const user = privacyService.redact(buildUser({ phone: 'private', bio: 'private' }), 'self');
+
+    expect(user.phone).toBe('+44 20 7946 0000');
+    expect(user.bio).toBe('Analytical engines');
+  });
+
+  it('clears fields the viewer may not see', () => {
+    const user = privacyService.redact(
+      buildUser({ phone: 'private', email: 'connections', bio: 'public', interests: 'private' }),
+      'other'
+    );
+
+    expect(user.phone).toBeUndefined();
+    expect(user.email).toBeUndefined();
+    expect(user.interests).toEqual([]);
+    expect(user.bio).toBe('Analytical engines');
+    expect(user.name).toBe('Ada Lovelace');
+  });
+
+  it('hides education together with experience', () => {
+    const user = privacyService.redact(buildUser({ experience: 'connections' }), 'other');
+
+    expect(user.experience).toHaveLength(0);
+    expect(user.education).toHaveLength(0);
+  });
+
+  it('shows connection-only fields to connections', () => {
+    const user = privacyService.redact(
+      buildUser({ phone: 'connections', experience: 'connections' }),
+      'connection'
+    );
+
+    expect(user.phone).toBe('+44 20 7946 0000');
+    expect(user.experience).toHaveLength(1);
+    expect(user.education).toHaveLength(1);
+  });
+});
+
+describe('privacyService.relationFor', () => {
+  const viewerId = new mongoose.Types.ObjectId();
+  const connectedId = new mongoose.Types.ObjectId();
+
+  it('tells the owner, connections and others apart', () => {
+    const connectedIds = new Set([connectedId.toString()]);
+
+    expect(privacyService.relationFor(viewerId, viewerId, connectedIds)).toBe('self');
+    expect(privacyService.relationFor(viewerId, connectedId, connectedIds)).toBe('connection');
+    expect(
+      privacyService.relationFor(viewerId, new mongoose.Types.ObjectId(), connectedIds)
+    ).toBe('other');
+  });
+});
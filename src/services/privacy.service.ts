@@ -0,0 +1,194 @@
+import mongoose from 'mongoose';
+import { Connection, IConnection } from '@models/Connection';
+import {
+  DEFAULT_PRIVACY_SETTINGS,
+  IUser,
+  PRIVACY_FIELDS,
+  PrivacyField,
+  PrivacySettings,
+  VisibilityLevel,
+} from '@models/User';
+
+export type ViewerRelation = 'self' | 'connection' | 'other';
+
+// Stored paths covered by each privacy setting
+const FIELD_PATHS: Record<PrivacyField, string[]> = {
+  phone: ['phone'],
+  email: ['email'],
+  bio: ['bio'],
+  interests: ['interests'],
+  experience: ['experience', 'education'],
+};
+
+type UserJson = Record<string, unknown> & { _id?: unknown; privacy?: Partial<PrivacySettings> };
+
+class PrivacyService {
+  /**
+   * Ids of users with an accepted connection to the user
+   */
+  async getConnectedUserIds(userId: mongoose.Types.ObjectId): Promise<Set<string>> {
+    const connections = await Connection.find({
+      participants: userId,
+      status: 'accepted',
+    }).select('participants');
+
+    const ids = new Set<string>();
+    connections.forEach((connection) =>
+      connection.participants.forEach((participant) => ids.add(participant.toString()))
+    );
+    ids.delete(userId.toString());
+
+    return ids;
+  }
+
+  /**
+   * Ids of users in a blocked connection with the user, whoever blocked
+   */
+  async getBlockedUserIds(userId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId[]> {
+    const connections = await Connection.find({
+      participants: userId,
+      status: 'blocked',
+    }).select('participants');
+
+    return connections.flatMap((connection) =>
+      connection.participants.filter((participant) => !participant.equals(userId))
+    );
+  }
+
+  /**
+   * How the viewer relates to the owner of a profile
+   */
+  async getRelation(
+    viewerId: mongoose.Types.ObjectId,
+    ownerId: mongoose.Types.ObjectId
+  ): Promise<ViewerRelation> {
+    if (viewerId.equals(ownerId)) return 'self';
+
+    const connected = await Connection.exists({
+      participants: { $all: [viewerId, ownerId] },
+      status: 'accepted',
+    });
+
+    return connected ? 'connection' : 'other';
+  }
+
+  /**
+   * Relation for list views, using preloaded connection ids
+   */
+  relationFor(
+    viewerId: mongoose.Types.ObjectId,
+    ownerId: mongoose.Types.ObjectId,
+    connectedIds: Set<string>
+  ): ViewerRelation {
+    if (viewerId.equals(ownerId)) return 'self';
+    return connectedIds.has(ownerId.toString()) ? 'connection' : 'other';
+  }
+
+  canView(
+    settings: Partial<PrivacySettings> | undefined,
+    field: PrivacyField,
+    relation: ViewerRelation
+  ): boolean {
+    if (relation === 'self') return true;
+
+    const level = settings?.[field] || DEFAULT_PRIVACY_SETTINGS[field];
+    return level === 'public' || (level === 'connections' && relation === 'connection');
+  }
+
+  /**
+   * Whether the user can be found by someone who is not a connection
+   */
+  isDiscoverable(user: IUser, relation: ViewerRelation): boolean {
+    return relation !== 'other' || !user.privacy?.hiddenFromDiscovery;
+  }
+
+  /**
+   * Clear the fields the viewer may not see
+   * Only use on documents loaded for display - they must not be saved afterwards
+   */
+  redact(user: IUser, relation: ViewerRelation): IUser {
+    this.getHiddenPaths(user.privacy, relation).forEach((path) =>
+      user.set(path, Array.isArray(user.get(path)) ? [] : undefined)
+    );
+    return user;
+  }
+
+  /**
+   * Query condition matching users whose field is visible to the viewer
+   */
+  visibleFieldFilter(field: PrivacyField, connectedIds: Set<string>): mongoose.FilterQuery<IUser> {
+    const path = `privacy.${field}`;
+
+    // Accounts created before the setting existed use the default level
+    const levels = (level: VisibilityLevel) =>
+      DEFAULT_PRIVACY_SETTINGS[field] === level ? [level, null] : [level];
+
+    return {
+      $or: [
+        { [path]: { $in: levels('public') } },
+        { [path]: { $in: levels('connections') }, _id: { $in: Array.from(connectedIds) } },
+      ],
+    };
+  }
+
+  /**
+   * Aggregation expression that is true when the field is visible to the viewer
+   * (same rules as visibleFieldFilter, for pipelines where ids are not cast)
+   */
+  visibleFieldExpression(field: PrivacyField, connectedIds: Set<string>): Record<string, unknown> {
+    const level = { $ifNull: [`$privacy.${field}`, DEFAULT_PRIVACY_SETTINGS[field]] };
+    const connected = Array.from(connectedIds, (id) => new mongoose.Types.ObjectId(id));
+
+    return {
+      $or: [
+        { $eq: [level, 'public'] },
+        { $and: [{ $eq: [level, 'connections'] }, { $in: ['$_id', connected] }] },
+      ],
+    };
+  }
+
+  /**
+   * Connection as seen by one participant: the other parties' hidden
+   * fields and privacy settings are removed
+   */
+  formatConnection(
+    connection: IConnection,
+    viewerId: mongoose.Types.ObjectId
+  ): Record<string, unknown> {
+    const json = connection.toJSON() as Record<string, unknown>;
+    const otherRelation: ViewerRelation = connection.status === 'accepted' ? 'connection' : 'other';
+
+    const view = (party: unknown): unknown => {
+      // Unpopulated references are left as they are
+      if (!party || typeof party !== 'object' || party instanceof mongoose.Types.ObjectId) {
+        return party;
+      }
+
+      const user = party as UserJson;
+      const relation = viewerId.equals(String(user._id)) ? 'self' : otherRelation;
+      const visible: UserJson = { ...user };
+
+      this.getHiddenPaths(user.privacy, relation).forEach((path) => delete visible[path]);
+      delete visible.privacy;
+
+      return visible;
+    };
+
+    json.participants = (json.participants as unknown[]).map(view);
+    json.initiator = view(json.initiator);
+    json.otherParticipant = view(json.otherParticipant);
+
+    return json;
+  }
+
+  private getHiddenPaths(
+    settings: Partial<PrivacySettings> | undefined,
+    relation: ViewerRelation
+  ): string[] {
+    return PRIVACY_FIELDS.filter((field) => !this.canView(settings, field, relation)).flatMap(
+      (field) => FIELD_PATHS[field]
+    );
+  }
+}
+
+export default new PrivacyService();
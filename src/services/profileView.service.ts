@@ -0,0 +1,220 @@
+import mongoose from 'mongoose';
+import { config } from '@config/env';
+import { ACTIVE_USER_FILTER, User } from '@models/User';
+import {
+  IProfileView,
+  PROFILE_VIEW_SOURCES,
+  ProfileView,
+  ProfileViewSource,
+} from '@models/ProfileView';
+
+export interface ProfileViewer {
+  id: string;
+  name?: string;
+  username?: string;
+  avatar?: string;
+  profession?: string;
+  source: ProfileViewSource;
+  lastViewedAt: Date;
+  // Days with at least one view in the period
+  days: number;
+}
+
+export interface RecentViewers {
+  viewers: ProfileViewer[];
+  // Viewers who chose not to be listed
+  anonymousViewers: number;
+}
+
+export interface ProfileViewCounts {
+  total: number;
+  last7Days: number;
+  last30Days: number;
+  // Distinct viewers and views per source over the last 30 days
+  uniqueViewers: number;
+  bySource: Record<ProfileViewSource, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the UTC day, `daysAgo` days back
+ */
+const startOfDay = (daysAgo = 0): Date => {
+  const now = new Date();
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - daysAgo * DAY_MS
+  );
+};
+
+class ProfileViewService {
+  /**
+   * Record that the viewer opened a profile; repeated views on the same day are counted once
+   */
+  async record(
+    viewerId: mongoose.Types.ObjectId,
+    viewedId: mongoose.Types.ObjectId,
+    source: ProfileViewSource = 'direct'
+  ): Promise<void> {
+    if (viewerId.equals(viewedId)) return;
+
+    const now = new Date();
+
+    try {
+      await ProfileView.updateOne(
+        { viewedId, viewerId, day: startOfDay() },
+        {
+          $setOnInsert: {
+            source,
+            expiresAt: new Date(now.getTime() + config.PROFILE_VIEW_RETENTION_DAYS * DAY_MS),
+          },
+          $set: { lastViewedAt: now },
+          $inc: { viewCount: 1 },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      // A concurrent first view of the day already created the entry
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
+
+  /**
+   * Recording must never fail the request that viewed the profile
+   */
+  track(
+    viewerId: mongoose.Types.ObjectId,
+    viewedId: mongoose.Types.ObjectId,
+    source?: ProfileViewSource
+  ): void {
+    this.record(viewerId, viewedId, source).catch((error) =>
+      console.error('Profile view tracking error:', error)
+    );
+  }
+
+  /**
+   * Read a source from client input, falling back to "direct"
+   */
+  parseSource(value: unknown): ProfileViewSource {
+    return PROFILE_VIEW_SOURCES.includes(value as ProfileViewSource)
+      ? (value as ProfileViewSource)
+      : 'direct';
+  }
+
+  /**
+   * Latest viewers of a profile, most recent first
+   */
+  async getRecentViewers(
+    userId: mongoose.Types.ObjectId,
+    days: number,
+    limit: number
+  ): Promise<RecentViewers> {
+    const grouped = await ProfileView.aggregate<{
+      _id: mongoose.Types.ObjectId;
+      source: ProfileViewSource;
+      lastViewedAt: Date;
+      days: number;
+    }>([
+      { $match: { viewedId: userId, day: { $gte: startOfDay(days - 1) } } },
+      { $sort: { lastViewedAt: -1 } },
+      {
+        $group: {
+          _id: '$viewerId',
+          source: { $first: '$source' },
+          lastViewedAt: { $first: '$lastViewedAt' },
+          days: { $sum: 1 },
+        },
+      },
+      { $sort: { lastViewedAt: -1 } },
+    ]);
+
+    // Viewers whose account is gone are skipped
+    const users = await User.find({
+      _id: { $in: grouped.map((entry) => entry._id) },
+      ...ACTIVE_USER_FILTER,
+    }).select('name username avatar profession privacy');
+    const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+    const viewers: ProfileViewer[] = [];
+    let anonymousViewers = 0;
+
+    for (const entry of grouped) {
+      const viewer = usersById.get(entry._id.toString());
+      if (!viewer) continue;
+
+      if (viewer.privacy?.anonymousProfileViews) {
+        anonymousViewers += 1;
+        continue;
+      }
+
+      viewers.push({
+        id: viewer._id.toString(),
+        name: viewer.name,
+        username: viewer.username,
+        avatar: viewer.avatar,
+        profession: viewer.profession,
+        source: entry.source,
+        lastViewedAt: entry.lastViewedAt,
+        days: entry.days,
+      });
+    }
+
+    return { viewers: viewers.slice(0, limit), anonymousViewers };
+  }
+
+  /**
+   * Profile view totals, counting each viewer once per day
+   */
+  async getCounts(userId: mongoose.Types.ObjectId): Promise<ProfileViewCounts> {
+    const since7Days = startOfDay(6);
+    const since30Days = startOfDay(29);
+
+    const [totals] = await ProfileView.aggregate<{
+      total: number;
+      last7Days: number;
+      last30Days: number;
+      viewers: mongoose.Types.ObjectId[];
+    }>([
+      { $match: { viewedId: userId } },
+      {
+        $group: {
+          _id: null,
+          total: { $sum: 1 },
+          last7Days: { $sum: { $cond: [{ $gte: ['$day', since7Days] }, 1, 0] } },
+          last30Days: { $sum: { $cond: [{ $gte: ['$day', since30Days] }, 1, 0] } },
+          viewers: { $addToSet: { $cond: [{ $gte: ['$day', since30Days] }, '$viewerId', '$$REMOVE'] } },
+        },
+      },
+    ]);
+
+    const sources = await ProfileView.aggregate<{ _id: ProfileViewSource; count: number }>([
+      { $match: { viewedId: userId, day: { $gte: since30Days } } },
+      { $group: { _id: '$source', count: { $sum: 1 } } },
+    ]);
+
+    const bySource = Object.fromEntries(PROFILE_VIEW_SOURCES.map((source) => [source, 0])) as Record<
+      ProfileViewSource,
+      number
+    >;
+    sources.forEach((entry) => {
+      bySource[entry._id] = entry.count;
+    });
+
+    return {
+      total: totals?.total || 0,
+      last7Days: totals?.last7Days || 0,
+      last30Days: totals?.last30Days || 0,
+      uniqueViewers: totals?.viewers.length || 0,
+      bySource,
+    };
+  }
+
+  /**
+   * Profiles the user has viewed (data export)
+   */
+  async listViewedBy(viewerId: mongoose.Types.ObjectId): Promise<IProfileView[]> {
+    return ProfileView.find({ viewerId }).sort({ day: -1 });
+  }
+}
+
+export default new ProfileViewService();
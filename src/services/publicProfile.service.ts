@@ -0,0 +1,243 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import QRCode from 'qrcode';
+import { DISCOVERABLE_USER_FILTER, IUser, User } from '@models/User';
+import privacyService from '@services/privacy.service';
+import { toVCard } from '@utils/vcard';
+
+export type QrFormat = 'png' | 'svg';
+
+export const QR_FORMATS: QrFormat[] = ['png', 'svg'];
+
+export interface PublicProfileLinks {
+  profileUrl: string;
+  vcardUrl: string;
+  qrUrl: string;
+}
+
+// Fields a public page can show; privacy settings then remove the ones that are not public
+const PUBLIC_FIELDS =
+  'username name email phone bio profession interests experience education skills avatar privacy verified createdAt';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatYears = (startDate?: Date, endDate?: Date, current = false): string => {
+  const start = startDate ? new Date(startDate).getFullYear().toString() : '';
+  const end = current ? 'present' : endDate ? new Date(endDate).getFullYear().toString() : '';
+
+  if (!start) return end;
+  return end && end !== start ? `${start} - ${end}` : start;
+};
+
+class PublicProfileService {
+  private template?: string;
+
+  /**
+   * Profile shown to anyone with the link: only discoverable accounts,
+   * with every field that is not public removed
+   */
+  async findByUsername(username: string): Promise<IUser | null> {
+    const user = await User.findOne({
+      username: username.toLowerCase(),
+      ...DISCOVERABLE_USER_FILTER,
+    }).select(PUBLIC_FIELDS);
+
+    return user ? privacyService.redact(user, 'other') : null;
+  }
+
+  getLinks(user: IUser, baseUrl: string): PublicProfileLinks {
+    const profileUrl = `${baseUrl}/u/${encodeURIComponent(user.username!)}`;
+
+    return {
+      profileUrl,
+      vcardUrl: `${profileUrl}/vcard`,
+      qrUrl: `${profileUrl}/qr`,
+    };
+  }
+
+  toJson(user: IUser, links: PublicProfileLinks, baseUrl: string): Record<string, unknown> {
+    return {
+      username: user.username,
+      name: user.name,
+      profession: user.profession,
+      bio: user.bio,
+      avatar: this.absoluteUrl(user.avatar, baseUrl),
+      email: user.email,
+      phone: user.phone,
+      interests: user.interests,
+      experience: user.experience.map((job) => ({
+        company: job.company,
+        title: job.title,
+        location: job.location,
+        startDate: job.startDate,
+        endDate: job.endDate,
+        current: job.current,
+      })),
+      education: user.education.map((entry) => ({
+        school: entry.school,
+        degree: entry.degree,
+        fieldOfStudy: entry.fieldOfStudy,
+        startDate: entry.startDate,
+        endDate: entry.endDate,
+      })),
+      skills: user.skills.map((skill) => ({ name: skill.name, level: skill.level })),
+      verified: user.verified,
+      memberSince: user.createdAt,
+      ...links,
+    };
+  }
+
+  renderHtml(user: IUser, links: PublicProfileLinks, baseUrl: string): string {
+    const name = user.name || user.username!;
+    const avatar = this.absoluteUrl(user.avatar, baseUrl);
+    const currentJob = user.experience.find((job) => job.current);
+
+    const values: Record<string, string> = {
+      name: escapeHtml(name),
+      username: escapeHtml(user.username!),
+      headline: escapeHtml(
+        user.profession || (currentJob ? `${currentJob.title} at ${currentJob.company}` : '')
+      ),
+      avatar: avatar
+        ? `<img class="avatar" src="${escapeHtml(avatar)}" alt="${escapeHtml(name)}">`
+        : `<div class="avatar avatar-placeholder">${escapeHtml(name.charAt(0).toUpperCase())}</div>`,
+      sections: this.renderSections(user),
+      profileUrl: escapeHtml(links.profileUrl),
+      vcardUrl: escapeHtml(links.vcardUrl),
+      qrUrl: escapeHtml(`${links.qrUrl}?format=svg`),
+    };
+
+    // Single pass, so placeholders inside user content are left alone
+    return this.getTemplate().replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) =>
+      key in values ? values[key]! : placeholder
+    );
+  }
+
+  toVCard(user: IUser, links: PublicProfileLinks, baseUrl: string): string {
+    const currentJob = user.experience.find((job) => job.current);
+
+    return toVCard({
+      fullName: user.name || user.username!,
+      nickname: user.username,
+      title: user.profession || currentJob?.title,
+      organization: currentJob?.company,
+      email: user.email,
+      phone: user.phone,
+      note: user.bio,
+      url: links.profileUrl,
+      photo: this.absoluteUrl(user.avatar, baseUrl),
+      categories: user.interests,
+    });
+  }
+
+  /**
+   * QR code pointing to the public profile
+   */
+  async createQrCode(url: string, format: QrFormat, size: number): Promise<Buffer | string> {
+    const options = { width: size, margin: 2, errorCorrectionLevel: 'M' as const };
+
+    return format === 'svg'
+      ? QRCode.toString(url, { ...options, type: 'svg' })
+      : QRCode.toBuffer(url, { ...options, type: 'png' });
+  }
+
+  private renderSections(user: IUser): string {
+    const sections: string[] = [];
+    const section = (title: string, body: string) =>
+      `<div class="section"><div class="section-title">${title}</div>${body}</div>`;
+    const entry = (title: string, meta: string) =>
+      `<div class="entry"><div class="entry-title">${escapeHtml(title)}</div>` +
+      (meta ? `<div class="entry-meta">${escapeHtml(meta)}</div>` : '') +
+      '</div>';
+    const tags = (names: string[]) =>
+      `<div class="tags">${names.map((name) => `<span class="tag">${escapeHtml(name)}</span>`).join('')}</div>`;
+
+    if (user.bio) {
+      sections.push(section('About', `<p class="bio">${escapeHtml(user.bio)}</p>`));
+    }
+
+    if (user.experience.length > 0) {
+      sections.push(
+        section(
+          'Experience',
+          user.experience
+            .map((job) =>
+              entry(
+                `${job.title} at ${job.company}`,
+                [formatYears(job.startDate, job.endDate, job.current), job.location]
+                  .filter(Boolean)
+                  .join(' · ')
+              )
+            )
+            .join('')
+        )
+      );
+    }
+
+    if (user.education.length > 0) {
+      sections.push(
+        section(
+          'Education',
+          user.education
+            .map((item) =>
+              entry(
+                item.school,
+                [
+                  [item.degree, item.fieldOfStudy].filter(Boolean).join(' in '),
+                  formatYears(item.startDate, item.endDate),
+                ]
+                  .filter(Boolean)
+                  .join(' · ')
+              )
+            )
+            .join('')
+        )
+      );
+    }
+
+    if (user.skills.length > 0) {
+      sections.push(section('Skills', tags(user.skills.map((skill) => skill.name))));
+    }
+
+    if (user.interests && user.interests.length > 0) {
+      sections.push(section('Interests', tags(user.interests)));
+    }
+
+    const contact = [
+      user.email
+        ? `<div><a href="mailto:${escapeHtml(user.email)}">${escapeHtml(user.email)}</a></div>`
+        : '',
+      user.phone
+        ? `<div><a href="tel:${escapeHtml(user.phone)}">${escapeHtml(user.phone)}</a></div>`
+        : '',
+    ].join('');
+    if (contact) {
+      sections.push(section('Contact', `<div class="contact">${contact}</div>`));
+    }
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Avatars stored locally have a path relative to the API
+   */
+  private absoluteUrl(url: string | undefined, baseUrl: string): string | undefined {
+    if (!url) return undefined;
+    return url.startsWith('/') && !url.startsWith('//') ? `${baseUrl}${url}` : url;
+  }
+
+  private getTemplate(): string {
+    if (!this.template) {
+      this.template = readFileSync(join(__dirname, '..', 'views', 'profile.html'), 'utf8');
+    }
+    return this.template;
+  }
+}
+
+export default new PublicProfileService();
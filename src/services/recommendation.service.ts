@@ -0,0 +1,413 @@
+import mongoose from 'mongoose';
+import { ACTIVE_USER_FILTER, IUser, User } from '@models/User';
+import { IRecommendation, Recommendation } from '@models/Recommendation';
+import endorsementService from '@services/endorsement.service';
+
+/**
+ * Recommendation request rejected because of the client (not a server fault)
+ */
+export class RecommendationError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'RecommendationError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface RecommendationInput {
+  content?: unknown;
+  relationship?: unknown;
+}
+
+export interface ModerationVerdict {
+  action: 'allow' | 'flag' | 'reject';
+  reason?: string;
+}
+
+/**
+ * Screens recommendation text when it is written or edited,
+ * e.g. a profanity filter or an external moderation API
+ */
+export type RecommendationModerationHook = (
+  _content: string,
+  _recommendation: IRecommendation
+) => ModerationVerdict | Promise<ModerationVerdict>;
+
+export type ModerationAction = 'remove' | 'restore' | 'dismiss';
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['remove', 'restore', 'dismiss'];
+
+const MIN_CONTENT_LENGTH = 20;
+const MAX_CONTENT_LENGTH = 3000;
+const MAX_RELATIONSHIP_LENGTH = 100;
+
+// Fields of the other party shown next to a recommendation
+const PARTY_FIELDS = 'name username avatar profession';
+
+class RecommendationService {
+  private moderationHooks: RecommendationModerationHook[] = [];
+
+  /**
+   * Register a content check that runs on every write and edit
+   */
+  addModerationHook(hook: RecommendationModerationHook): void {
+    this.moderationHooks.push(hook);
+  }
+
+  /**
+   * Ask a connection to write a recommendation
+   */
+  async requestRecommendation(
+    recipient: IUser,
+    authorId: string,
+    message?: string
+  ): Promise<IRecommendation> {
+    const author = await this.findConnection(recipient, authorId);
+
+    const existing = await Recommendation.findOne({
+      authorId: author._id,
+      recipientId: recipient._id,
+    });
+
+    // A declined request may be asked again
+    if (existing && existing.status !== 'declined') {
+      throw new RecommendationError(
+        existing.status === 'requested'
+          ? 'You have already asked this user for a recommendation'
+          : 'This user has already written you a recommendation',
+        409
+      );
+    }
+
+    const recommendation =
+      existing || new Recommendation({ authorId: author._id, recipientId: recipient._id });
+    recommendation.status = 'requested';
+    recommendation.requestMessage = message?.trim() || undefined;
+    await recommendation.save();
+
+    return recommendation;
+  }
+
+  /**
+   * Write a recommendation for a connection, fulfilling their request if there is one
+   */
+  async writeRecommendation(
+    author: IUser,
+    recipientId: string,
+    input: RecommendationInput
+  ): Promise<IRecommendation> {
+    const recipient = await this.findConnection(author, recipientId);
+    const { content, relationship } = this.parseInput(input);
+
+    const existing = await Recommendation.findOne({
+      authorId: author._id,
+      recipientId: recipient._id,
+    });
+
+    if (existing && !['requested', 'declined'].includes(existing.status)) {
+      throw new RecommendationError(
+        'You have already written a recommendation for this user. Edit it instead',
+        409
+      );
+    }
+
+    const recommendation =
+      existing || new Recommendation({ authorId: author._id, recipientId: recipient._id });
+    recommendation.content = content;
+    recommendation.relationship = relationship;
+    recommendation.status = 'pending';
+    recommendation.writtenAt = new Date();
+
+    await this.screen(recommendation);
+    await recommendation.save();
+
+    return recommendation;
+  }
+
+  /**
+   * Edit a written recommendation; the previous version goes to the history
+   * and the recipient has to approve the new text
+   */
+  async editRecommendation(
+    author: IUser,
+    recommendationId: string,
+    input: RecommendationInput
+  ): Promise<IRecommendation> {
+    const recommendation = await this.findById(recommendationId, { authorId: author._id });
+
+    if (!recommendation.content || ['requested', 'declined'].includes(recommendation.status)) {
+      throw new RecommendationError('This recommendation has not been written yet');
+    }
+
+    if (recommendation.removedAt) {
+      throw new RecommendationError('This recommendation was removed by a moderator', 403);
+    }
+
+    const { content, relationship } = this.parseInput({
+      content: input.content ?? recommendation.content,
+      relationship: input.relationship ?? recommendation.relationship,
+    });
+
+    recommendation.history.push({
+      content: recommendation.content,
+      relationship: recommendation.relationship,
+      editedAt: new Date(),
+    });
+    recommendation.content = content;
+    recommendation.relationship = relationship;
+    recommendation.status = 'pending';
+    recommendation.approvedAt = undefined;
+
+    await this.screen(recommendation);
+    await recommendation.save();
+
+    return recommendation;
+  }
+
+  /**
+   * Decline a recommendation request
+   */
+  async declineRequest(author: IUser, recommendationId: string): Promise<IRecommendation> {
+    const recommendation = await this.findById(recommendationId, { authorId: author._id });
+
+    if (recommendation.status !== 'requested') {
+      throw new RecommendationError('Only open requests can be declined');
+    }
+
+    recommendation.status = 'declined';
+    await recommendation.save();
+
+    return recommendation;
+  }
+
+  /**
+   * Approve (show) or hide a received recommendation
+   */
+  async setVisibility(
+    recipient: IUser,
+    recommendationId: string,
+    visible: boolean
+  ): Promise<IRecommendation> {
+    const recommendation = await this.findById(recommendationId, { recipientId: recipient._id });
+
+    if (!['pending', 'visible', 'hidden'].includes(recommendation.status)) {
+      throw new RecommendationError('This recommendation has not been written yet');
+    }
+
+    if (visible && recommendation.removedAt) {
+      throw new RecommendationError('This recommendation was removed by a moderator', 403);
+    }
+
+    recommendation.status = visible ? 'visible' : 'hidden';
+    if (visible && !recommendation.approvedAt) {
+      recommendation.approvedAt = new Date();
+    }
+    await recommendation.save();
+
+    return recommendation;
+  }
+
+  /**
+   * Delete a recommendation (author withdraws it or recipient discards it)
+   */
+  async deleteRecommendation(user: IUser, recommendationId: string): Promise<IRecommendation> {
+    const recommendation = await this.findById(recommendationId, {
+      $or: [{ authorId: user._id }, { recipientId: user._id }],
+    });
+
+    await recommendation.deleteOne();
+    return recommendation;
+  }
+
+  /**
+   * A recommendation the user wrote or received
+   */
+  async getForParticipant(user: IUser, recommendationId: string): Promise<IRecommendation> {
+    return this.findById(recommendationId, {
+      $or: [{ authorId: user._id }, { recipientId: user._id }],
+    });
+  }
+
+  async listReceived(recipientId: mongoose.Types.ObjectId): Promise<IRecommendation[]> {
+    return Recommendation.find({ recipientId })
+      .populate('authorId', PARTY_FIELDS)
+      .sort({ updatedAt: -1 });
+  }
+
+  async listGiven(authorId: mongoose.Types.ObjectId): Promise<IRecommendation[]> {
+    return Recommendation.find({ authorId })
+      .populate('recipientId', PARTY_FIELDS)
+      .sort({ updatedAt: -1 });
+  }
+
+  /**
+   * Recommendations shown on a profile: approved, not removed, author still active
+   */
+  async getPublicRecommendations(
+    recipientId: mongoose.Types.ObjectId
+  ): Promise<IRecommendation[]> {
+    const recommendations = await Recommendation.find({
+      recipientId,
+      status: 'visible',
+      removedAt: { $exists: false },
+    })
+      .populate({ path: 'authorId', select: PARTY_FIELDS, match: ACTIVE_USER_FILTER })
+      .sort({ approvedAt: -1 });
+
+    return recommendations.filter((recommendation) => recommendation.authorId);
+  }
+
+  /**
+   * Report a recommendation to the moderators
+   */
+  async report(user: IUser, recommendationId: string, reason: string): Promise<IRecommendation> {
+    const recommendation = await this.findById(recommendationId, {
+      $or: [
+        { status: 'visible', removedAt: { $exists: false } },
+        { authorId: user._id },
+        { recipientId: user._id },
+      ],
+    });
+
+    // One report per user - a new report replaces the previous one
+    recommendation.reports = recommendation.reports.filter(
+      (report) => !report.userId.equals(user._id)
+    );
+    recommendation.reports.push({ userId: user._id, reason: reason.trim(), createdAt: new Date() });
+    recommendation.flagged = true;
+    recommendation.flagReason = recommendation.flagReason || 'Reported by a user';
+    await recommendation.save();
+
+    return recommendation;
+  }
+
+  /**
+   * Recommendations waiting for a moderator
+   */
+  async listFlagged(page: number, limit: number): Promise<{ items: IRecommendation[]; total: number }> {
+    const query = { flagged: true };
+
+    const [items, total] = await Promise.all([
+      Recommendation.find(query)
+        .populate('authorId', 'name username email')
+        .populate('recipientId', 'name username email')
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Recommendation.countDocuments(query),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Apply a moderator decision
+   */
+  async moderate(
+    moderator: IUser,
+    recommendationId: string,
+    action: ModerationAction,
+    reason?: string
+  ): Promise<IRecommendation> {
+    const recommendation = await this.findById(recommendationId, {});
+
+    if (action === 'remove') {
+      recommendation.removedAt = new Date();
+      recommendation.removedBy = moderator._id;
+      recommendation.removalReason = reason?.trim() || undefined;
+    } else if (action === 'restore') {
+      recommendation.removedAt = undefined;
+      recommendation.removedBy = undefined;
+      recommendation.removalReason = undefined;
+    }
+
+    // Every decision closes the review
+    recommendation.flagged = false;
+    recommendation.flagReason = undefined;
+    recommendation.reports = [];
+    await recommendation.save();
+
+    return recommendation;
+  }
+
+  private async findConnection(user: IUser, otherUserId: string): Promise<IUser> {
+    if (!mongoose.Types.ObjectId.isValid(otherUserId)) {
+      throw new RecommendationError('User not found', 404);
+    }
+
+    if (user._id.equals(otherUserId)) {
+      throw new RecommendationError('You cannot recommend yourself');
+    }
+
+    const otherUser = await User.findOne({ _id: otherUserId, ...ACTIVE_USER_FILTER });
+    if (!otherUser) {
+      throw new RecommendationError('User not found', 404);
+    }
+
+    if (!(await endorsementService.areConnected(user._id, otherUser._id))) {
+      throw new RecommendationError('Recommendations are only available between connections', 403);
+    }
+
+    return otherUser;
+  }
+
+  private async findById(
+    recommendationId: string,
+    filter: mongoose.FilterQuery<IRecommendation>
+  ): Promise<IRecommendation> {
+    const recommendation = mongoose.Types.ObjectId.isValid(recommendationId)
+      ? await Recommendation.findOne({ _id: recommendationId, ...filter })
+      : null;
+
+    if (!recommendation) {
+      throw new RecommendationError('Recommendation not found', 404);
+    }
+
+    return recommendation;
+  }
+
+  private parseInput(input: RecommendationInput): { content: string; relationship?: string } {
+    const content = typeof input.content === 'string' ? input.content.trim() : '';
+    const relationship =
+      typeof input.relationship === 'string' ? input.relationship.trim() : undefined;
+
+    if (content.length < MIN_CONTENT_LENGTH || content.length > MAX_CONTENT_LENGTH) {
+      throw new RecommendationError(
+        `Recommendation must be between ${MIN_CONTENT_LENGTH} and ${MAX_CONTENT_LENGTH} characters`
+      );
+    }
+
+    if (relationship && relationship.length > MAX_RELATIONSHIP_LENGTH) {
+      throw new RecommendationError(
+        `Relationship cannot exceed ${MAX_RELATIONSHIP_LENGTH} characters`
+      );
+    }
+
+    return { content, relationship: relationship || undefined };
+  }
+
+  /**
+   * Run the moderation hooks on the current text
+   */
+  private async screen(recommendation: IRecommendation): Promise<void> {
+    for (const hook of this.moderationHooks) {
+      const verdict = await hook(recommendation.content || '', recommendation);
+
+      if (verdict.action === 'reject') {
+        throw new RecommendationError(
+          verdict.reason || 'This recommendation cannot be published',
+          422
+        );
+      }
+
+      if (verdict.action === 'flag') {
+        recommendation.flagged = true;
+        recommendation.flagReason = verdict.reason || 'Flagged automatically';
+      }
+    }
+  }
+}
+
+export default new RecommendationService();
@@ -0,0 +1,101 @@
+import mongoose from 'mongoose';
+import sessionService from '@services/session.service';
+import { Session } from '@models/Session';
+import { User } from '@models/User';
+import { hashToken } from '@utils/token';
+
+jest.mock('@models/Session', () => ({
+  Session: { findById: jest.fn(), updateOne: jest.fn() },
+}));
+jest.mock('@models/User', () => ({
+  User: { findById: jest.fn() },
+}));
+jest.mock('@utils/jwt', () => ({
+  generateToken: jest.fn(() => 'access-token'),
+}));
+
+const findSession = Session.findById as jest.Mock;
+const updateSession = Session.updateOne as jest.Mock;
+const findUser = User.findById as jest.Mock;
+
+const buildSession = (secret: string, previousSecrets: string[] = [], active = true) => ({
+  _id: new mongoose.Types.ObjectId(),
+  userId: new mongoose.Types.ObjectId(),
+  refreshTokenHash: hashToken(secret),
+  previousTokenHashes: previousSecrets.map(hashToken),
+  expiresAt: new Date(),
+  lastUsedAt: new Date(0),
+  isActive: () => active,
+  save: jest.fn().mockResolvedValue(undefined),
+});
+
+const loadSession = (session: ReturnType<typeof buildSession> | null) => {
+  findSession.mockReturnValue({ select: jest.fn().mockResolvedValue(session) });
+};
+
+describe('sessionService.rotateSession', () => {
+  const user = { _id: new mongoose.Types.ObjectId(), email: 'ada@example.com' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findUser.mockResolvedValue(user);
+  });
+
+  it('issues a new token pair and remembers the rotated secret', async () => {
+    const session = buildSession('current', ['older']);
+    loadSession(session);
+
+    const result = await sessionService.rotateSession(`${session._id}.current`, { ip: '10.0.0.1' });
+
+    expect(result).not.toBeNull();
+    expect(result!.user).toBe(user);
+    expect(result!.tokens.token).toBe('access-token');
+    expect(result!.tokens.sessionId).toBe(session._id.toString());
+
+    const [sessionId, secret] = result!.tokens.refreshToken.split('.');
+    expect(sessionId).toBe(session._id.toString());
+    expect(secret).not.toBe('current');
+    expect(session.refreshTokenHash).toBe(hashToken(secret!));
+    expect(session.previousTokenHashes).toEqual([hashToken('current'), hashToken('older')]);
+    expect(session.save).toHaveBeenCalled();
+  });
+
+  it('revokes the session when a rotated token is replayed', async () => {
+    const session = buildSession('current', ['older']);
+    loadSession(session);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await sessionService.rotateSession(`${session._id}.older`);
+
+    expect(result).toBeNull();
+    expect(updateSession).toHaveBeenCalledWith(
+      { _id: session._id.toString(), revokedAt: { $exists: false } },
+      expect.objectContaining({ revokedReason: 'reuse_detected' })
+    );
+    expect(session.save).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('rejects an unknown secret without revoking the session', async () => {
+    const session = buildSession('current');
+    loadSession(session);
+
+    await expect(sessionService.rotateSession(`${session._id}.guess`)).resolves.toBeNull();
+    expect(updateSession).not.toHaveBeenCalled();
+    expect(session.save).not.toHaveBeenCalled();
+  });
+
+  it('rejects revoked or expired sessions', async () => {
+    const session = buildSession('current', [], false);
+    loadSession(session);
+
+    await expect(sessionService.rotateSession(`${session._id}.current`)).resolves.toBeNull();
+    expect(session.save).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed tokens without a lookup', async () => {
+    await expect(sessionService.rotateSession('not-a-token')).resolves.toBeNull();
+    await expect(sessionService.rotateSession('123.secret')).resolves.toBeNull();
+    expect(findSession).not.toHaveBeenCalled();
+  });
+});
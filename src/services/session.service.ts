@@ -0,0 +1,236 @@
+import mongoose from 'mongoose';
+import { config } from '@config/env';
+import { IUser, User } from '@models/User';
+import { ISession, Session, SessionRevokeReason } from '@models/Session';
+import { generateToken } from '@utils/jwt';
+import { generateRandomToken, hashToken, safeCompare } from '@utils/token';
+import { describeUserAgent } from '@utils/userAgent';
+
+export interface SessionMeta {
+  deviceName?: string;
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+// Number of rotated refresh tokens remembered per session for reuse detection
+const MAX_PREVIOUS_TOKENS = 10;
+
+// Minimum interval between two "last seen" writes for the same session
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+class SessionService {
+  /**
+   * Create a new session for a user and issue its first token pair
+   */
+  async createSession(user: IUser, meta: SessionMeta = {}): Promise<AuthTokens> {
+    const secret = generateRandomToken();
+
+    const session = await Session.create({
+      userId: user._id,
+      refreshTokenHash: hashToken(secret),
+      deviceName: meta.deviceName || describeUserAgent(meta.userAgent),
+      userAgent: meta.userAgent,
+      ip: meta.ip,
+      expiresAt: this.getRefreshExpiry(),
+    });
+
+    return this.buildTokens(user, session, secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair.
+   * Presenting an already rotated token revokes the whole session.
+   * @returns New tokens and the session owner, or null if the token is not usable
+   */
+  async rotateSession(
+    refreshToken: string,
+    meta: SessionMeta = {}
+  ): Promise<{ tokens: AuthTokens; user: IUser } | null> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) return null;
+
+    const session = await Session.findById(parsed.sessionId).select(
+      '+refreshTokenHash +previousTokenHashes'
+    );
+
+    if (!session || !session.isActive()) {
+      return null;
+    }
+
+    const presentedHash = hashToken(parsed.secret);
+
+    if (!safeCompare(presentedHash, session.refreshTokenHash)) {
+      // An old token being replayed means the token chain has leaked
+      const isReuse = session.previousTokenHashes.some((hash) =>
+        safeCompare(presentedHash, hash)
+      );
+
+      if (isReuse) {
+        console.warn(`⚠️ Refresh token reuse detected for session ${session._id}`);
+        await this.revokeSession(session._id.toString(), 'reuse_detected');
+      }
+
+      return null;
+    }
+
+    const user = await User.findById(session.userId);
+    if (!user) return null;
+
+    const secret = await this.rotateSecret(session, meta);
+
+    return { tokens: this.buildTokens(user, session, secret), user };
+  }
+
+  /**
+   * Issue a fresh token pair for an existing session (e.g. after the email changed)
+   * @returns New tokens, or null if the session is no longer active
+   */
+  async reissueTokens(sessionId: string, user: IUser): Promise<AuthTokens | null> {
+    const session = await Session.findOne({ _id: sessionId, userId: user._id }).select(
+      '+refreshTokenHash +previousTokenHashes'
+    );
+
+    if (!session || !session.isActive()) {
+      return null;
+    }
+
+    const secret = await this.rotateSecret(session);
+
+    return this.buildTokens(user, session, secret);
+  }
+
+  /**
+   * Get a session that is still valid for the given user
+   */
+  async getActiveSession(sessionId: string, userId: string): Promise<ISession | null> {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) return null;
+
+    const session = await Session.findOne({ _id: sessionId, userId });
+    if (!session || !session.isActive()) {
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Record that a session was just used (throttled to limit writes)
+   */
+  async touchSession(session: ISession, meta: SessionMeta = {}): Promise<void> {
+    if (Date.now() - session.lastUsedAt.getTime() < TOUCH_INTERVAL_MS) return;
+
+    session.lastUsedAt = new Date();
+    if (meta.ip) session.ip = meta.ip;
+
+    await session.save();
+  }
+
+  /**
+   * List active sessions of a user, most recently used first
+   */
+  async getActiveSessions(userId: string): Promise<ISession[]> {
+    return await Session.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+  }
+
+  /**
+   * Revoke a single session
+   */
+  async revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await Session.updateOne(
+      { _id: sessionId, revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+  }
+
+  /**
+   * Revoke every active session belonging to a user
+   * @param exceptSessionId - Session to keep signed in (e.g. the one making the request)
+   * @returns Number of sessions revoked
+   */
+  async revokeAllSessions(
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const query: Record<string, unknown> = { userId, revokedAt: { $exists: false } };
+    if (exceptSessionId) {
+      query._id = { $ne: exceptSessionId };
+    }
+
+    const result = await Session.updateMany(query, {
+      revokedAt: new Date(),
+      revokedReason: reason,
+    });
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Replace the session's refresh secret, remembering the old one for reuse detection
+   * Session must be loaded with +refreshTokenHash +previousTokenHashes
+   */
+  private async rotateSecret(session: ISession, meta: SessionMeta = {}): Promise<string> {
+    const secret = generateRandomToken();
+
+    session.previousTokenHashes = [
+      session.refreshTokenHash,
+      ...session.previousTokenHashes,
+    ].slice(0, MAX_PREVIOUS_TOKENS);
+    session.refreshTokenHash = hashToken(secret);
+    session.expiresAt = this.getRefreshExpiry();
+    session.lastUsedAt = new Date();
+    if (meta.userAgent) session.userAgent = meta.userAgent;
+    if (meta.ip) session.ip = meta.ip;
+
+    await session.save();
+
+    return secret;
+  }
+
+  /**
+   * Build access/refresh token pair for a session
+   */
+  private buildTokens(user: IUser, session: ISession, secret: string): AuthTokens {
+    const sessionId = session._id.toString();
+
+    return {
+      token: generateToken({
+        userId: user._id.toString(),
+        email: user.email,
+        sessionId,
+      }),
+      refreshToken: `${sessionId}.${secret}`,
+      sessionId,
+    };
+  }
+
+  /**
+   * Split a refresh token into its session id and secret
+   */
+  private parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } | null {
+    if (typeof refreshToken !== 'string') return null;
+
+    const [sessionId, secret] = refreshToken.split('.');
+    if (!sessionId || !secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+      return null;
+    }
+
+    return { sessionId, secret };
+  }
+
+  private getRefreshExpiry(): Date {
+    return new Date(Date.now() + config.REFRESH_TOKEN_EXPIRE_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
+
+export default new SessionService();
@@ -1,11 +1,30 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
-import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import { User } from '@models/User';
 import { config } from '@config/env';
+import { verifyToken } from '@utils/jwt';
+import { isStringArray } from '@utils/validation';
+import sessionService from '@services/session.service';
+import tagService from '@services/tag.service';
+import locationService, { LocationError } from '@services/location.service';
+import privacyService from '@services/privacy.service';
+
+// Location updates closer together are ignored
+const LOCATION_UPDATE_INTERVAL_MS = 5000;
+// Most users a single location update is delivered to
+const MAX_LOCATION_RECIPIENTS = 100;
+
+// Profile fields users can change over the socket
+interface ProfileUpdate {
+  interests?: string[];
+  profession?: string;
+  bio?: string;
+}
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
+  sessionId?: string;
   user?: {
     _id: string;
     username?: string;
@@ -17,8 +36,9 @@ interface AuthenticatedSocket extends Socket {
 
 export class SocketService {
   private io: SocketIOServer;
-  private connectedUsers: Map<string, string> = new Map(); // userId -> socketId
+  private connectedUsers: Map<string, Set<string>> = new Map(); // userId -> socketIds (one per device)
   private activeConnections: Map<string, string> = new Map(); // userId -> connectionId
+  private lastLocationUpdates: Map<string, number> = new Map(); // userId -> timestamp
 
   constructor(server: HTTPServer) {
     this.io = new SocketIOServer(server, {
@@ -43,14 +63,38 @@ export class SocketService {
           return next(new Error('Authentication error: No token provided'));
         }
 
-        const decoded = jwt.verify(token, config.JWT_SECRET) as { userId: string; email: string };
+        const decoded = verifyToken(token);
         const user = await User.findById(decoded.userId).select('-password');
         
         if (!user) {
           return next(new Error('Authentication error: User not found'));
         }
 
+        if (user.suspended) {
+          return next(new Error('Authentication error: Account suspended'));
+        }
+
+        if (user.deletedAt) {
+          return next(new Error('Authentication error: Account deleted'));
+        }
+
+        if (decoded.email !== user.email) {
+          return next(new Error('Authentication error: Token is outdated'));
+        }
+
+        // Reject tokens whose session has been revoked or has expired
+        const session = decoded.sessionId
+          ? await sessionService.getActiveSession(decoded.sessionId, user._id.toString())
+          : null;
+
+        if (!session) {
+          return next(new Error('Authentication error: Session revoked'));
+        }
+
+        await sessionService.touchSession(session, { ip: socket.handshake.address });
+
         (socket as AuthenticatedSocket).userId = user._id.toString();
+        (socket as AuthenticatedSocket).sessionId = session._id.toString();
         (socket as AuthenticatedSocket).user = {
           _id: user._id.toString(),
           username: user.username,
@@ -71,14 +115,23 @@ export class SocketService {
 
       // Store user connection
       if (authSocket.userId) {
-        this.connectedUsers.set(authSocket.userId, socket.id);
+        const isFirstSocket = !this.connectedUsers.has(authSocket.userId);
+        this.addUserSocket(authSocket.userId, socket.id);
+
+        // Rooms used to reach every device of a user, or a single signed-in device
+        socket.join(this.getUserRoom(authSocket.userId));
+        if (authSocket.sessionId) {
+          socket.join(this.getSessionRoom(authSocket.sessionId));
+        }
         
         // Update user's socketId in database
         User.findByIdAndUpdate(authSocket.userId, { socketId: socket.id })
           .catch(err => console.error('Error updating user socketId:', err));
         
         // Broadcast user online status to all connected clients
-        this.io.emit('user:online', { userId: authSocket.userId });
+        if (isFirstSocket) {
+          this.io.emit('user:online', { userId: authSocket.userId });
+        }
       }
 
       // Handle user online status
@@ -154,13 +207,8 @@ export class SocketService {
         this.handleLocationUpdate(authSocket, data);
       });
 
-      // Handle user interests/availability updates
-      socket.on('profile:update', (data: { 
-        interests?: string[]; 
-        profession?: string; 
-        bio?: string; 
-        available?: boolean 
-      }) => {
+      // Handle profile updates (interests, profession, bio)
+      socket.on('profile:update', (data: Record<string, unknown>) => {
         this.handleProfileUpdate(authSocket, data);
       });
 
@@ -214,11 +262,9 @@ export class SocketService {
   }) {
     if (!socket.userId) return;
 
-    const targetSocketId = this.connectedUsers.get(data.targetUserId);
-    
-    if (targetSocketId) {
+    if (this.isUserOnline(data.targetUserId)) {
       // Send message to target user
-      this.io.to(targetSocketId).emit('message:received', {
+      this.io.to(this.getUserRoom(data.targetUserId)).emit('message:received', {
         fromUserId: socket.userId,
         fromUserName: socket.user?.name,
         message: data.message,
@@ -235,49 +281,127 @@ export class SocketService {
     });
   }
 
-  private handleLocationUpdate(socket: AuthenticatedSocket, data: { 
+  private async handleLocationUpdate(socket: AuthenticatedSocket, data: { 
     latitude: number; 
     longitude: number; 
     accuracy?: number 
   }) {
     if (!socket.userId) return;
 
-    // Broadcast location to nearby users (you can add proximity logic here)
-    socket.broadcast.emit('user:location', {
-      userId: socket.userId,
-      userName: socket.user?.name,
-      location: {
-        latitude: data.latitude,
-        longitude: data.longitude,
-        accuracy: data.accuracy,
-      },
-      timestamp: new Date(),
-    });
+    const now = Date.now();
+    if (now - (this.lastLocationUpdates.get(socket.userId) || 0) < LOCATION_UPDATE_INTERVAL_MS) {
+      return;
+    }
+    this.lastLocationUpdates.set(socket.userId, now);
+
+    try {
+      const result = await locationService.update(socket.userId, data?.latitude, data?.longitude);
+
+      if (!result) {
+        socket.emit('error', { message: 'Turn on location sharing in your privacy settings first' });
+        return;
+      }
+
+      // Only online users within the radius who share their own location get the update
+      const recipients = result.visible
+        ? await locationService.findNearby(
+            new mongoose.Types.ObjectId(socket.userId),
+            result.location,
+            {
+              radiusKm: config.NEARBY_RADIUS_KM,
+              limit: MAX_LOCATION_RECIPIENTS,
+              userIds: this.getConnectedUsers(),
+            }
+          )
+        : [];
+
+      recipients.forEach((recipient) => {
+        this.sendToUser(recipient.userId, 'user:location', {
+          userId: socket.userId,
+          userName: socket.user?.name,
+          location: locationService.format(result.location),
+          distance: recipient.distance,
+          timestamp: new Date(),
+        });
+      });
+
+      socket.emit('location:updated', {
+        location: locationService.format(result.location),
+        nearbyCount: recipients.length,
+      });
+    } catch (error) {
+      socket.emit('error', {
+        message: error instanceof LocationError ? error.message : 'Failed to update location',
+      });
+    }
   }
 
-  private async handleProfileUpdate(socket: AuthenticatedSocket, data: { 
-    interests?: string[]; 
-    profession?: string; 
-    bio?: string; 
-    available?: boolean 
-  }) {
+  private async handleProfileUpdate(socket: AuthenticatedSocket, data: Record<string, unknown>) {
     if (!socket.userId) return;
 
-    // Update user profile in database
-    await User.findByIdAndUpdate(socket.userId, {
-      interests: data.interests,
-      profession: data.profession,
-      bio: data.bio,
-      lastActive: new Date(),
-    });
+    // Only these fields are stored and relayed - anything else the client sends is dropped
+    const { interests, profession, bio } = data || {};
 
-    // Notify other users about profile update
-    socket.broadcast.emit('user:profile:updated', {
-      userId: socket.userId,
-      userName: socket.user?.name,
-      updates: data,
-      timestamp: new Date(),
-    });
+    if (interests !== undefined && !isStringArray(interests)) {
+      socket.emit('error', { message: 'Interests must be an array of strings' });
+      return;
+    }
+
+    if (
+      (profession !== undefined && typeof profession !== 'string') ||
+      (bio !== undefined && typeof bio !== 'string')
+    ) {
+      socket.emit('error', { message: 'Profession and bio must be strings' });
+      return;
+    }
+
+    try {
+      const updates: ProfileUpdate = {};
+      // Store interests under their canonical tag names
+      if (interests !== undefined) updates.interests = await tagService.normalize(interests);
+      if (profession !== undefined) updates.profession = profession;
+      if (bio !== undefined) updates.bio = bio;
+
+      // Update user profile in database
+      const user = await User.findByIdAndUpdate(
+        socket.userId,
+        { ...updates, lastActive: new Date() },
+        { new: true }
+      ).select('privacy');
+      if (!user) return;
+
+      const notification = {
+        userId: socket.userId,
+        userName: socket.user?.name,
+        timestamp: new Date(),
+      };
+
+      // The user's other devices get the full update
+      socket.to(this.getUserRoom(socket.userId)).emit('user:profile:updated', {
+        ...notification,
+        updates,
+      });
+
+      // Online connections only get the fields the user shows to connections
+      const connectionUpdates = { ...updates };
+      if (!privacyService.canView(user.privacy, 'bio', 'connection')) {
+        delete connectionUpdates.bio;
+      }
+      if (!privacyService.canView(user.privacy, 'interests', 'connection')) {
+        delete connectionUpdates.interests;
+      }
+
+      const connectedIds = await privacyService.getConnectedUserIds(user._id);
+      connectedIds.forEach((connectedId) => {
+        this.sendToUser(connectedId, 'user:profile:updated', {
+          ...notification,
+          updates: connectionUpdates,
+        });
+      });
+    } catch (error) {
+      console.error('Profile update error:', error);
+      socket.emit('error', { message: 'Failed to update profile' });
+    }
   }
 
   private async handleDisconnect(socket: AuthenticatedSocket) {
@@ -285,7 +409,12 @@ export class SocketService {
 
     if (socket.userId) {
       // Remove from connected users
-      this.connectedUsers.delete(socket.userId);
+      this.removeUserSocket(socket.userId, socket.id);
+
+      // User is still online on another device
+      if (this.isUserOnline(socket.userId)) return;
+
+      this.lastLocationUpdates.delete(socket.userId);
       
       // Update user's socketId in database
       await User.findByIdAndUpdate(socket.userId, { socketId: null });
@@ -311,19 +440,36 @@ export class SocketService {
     return this.connectedUsers.has(userId);
   }
 
-  public getUserSocketId(userId: string): string | undefined {
-    return this.connectedUsers.get(userId);
+  public getUserSocketIds(userId: string): string[] {
+    return Array.from(this.connectedUsers.get(userId) || []);
   }
 
   public sendToUser(userId: string, event: string, data: unknown): boolean {
-    const socketId = this.connectedUsers.get(userId);
-    if (socketId) {
-      this.io.to(socketId).emit(event, data);
+    if (this.isUserOnline(userId)) {
+      this.io.to(this.getUserRoom(userId)).emit(event, data);
       return true;
     }
     return false;
   }
 
+  /**
+   * Disconnect the live sockets of one signed-in device
+   */
+  public disconnectSession(sessionId: string, reason = 'Session revoked'): void {
+    const room = this.getSessionRoom(sessionId);
+    this.io.to(room).emit('session:revoked', { sessionId, reason });
+    this.io.in(room).disconnectSockets(true);
+  }
+
+  /**
+   * Disconnect every live socket of a user
+   */
+  public disconnectUser(userId: string, reason = 'Signed out'): void {
+    const room = this.getUserRoom(userId);
+    this.io.to(room).emit('session:revoked', { reason });
+    this.io.in(room).disconnectSockets(true);
+  }
+
   public broadcast(event: string, data: unknown): void {
     this.io.emit(event, data);
   }
@@ -340,6 +486,30 @@ export class SocketService {
     this.activeConnections.delete(userId);
   }
 
+  private addUserSocket(userId: string, socketId: string): void {
+    const sockets = this.connectedUsers.get(userId) || new Set<string>();
+    sockets.add(socketId);
+    this.connectedUsers.set(userId, sockets);
+  }
+
+  private removeUserSocket(userId: string, socketId: string): void {
+    const sockets = this.connectedUsers.get(userId);
+    if (!sockets) return;
+
+    sockets.delete(socketId);
+    if (sockets.size === 0) {
+      this.connectedUsers.delete(userId);
+    }
+  }
+
+  private getUserRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  private getSessionRoom(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
   private async handleUnreadCountsRequest(socket: AuthenticatedSocket) {
     if (!socket.userId) return;
 
@@ -0,0 +1,136 @@
+import mongoose from 'mongoose';
+import { Connection } from '@models/Connection';
+import { Message } from '@models/Message';
+import { User } from '@models/User';
+import profileViewService, { ProfileViewCounts } from '@services/profileView.service';
+
+export interface NetworkStats {
+  connections: {
+    total: number;
+    pending: number;
+    recent: number;
+  };
+  messages: {
+    sent: number;
+    received: number;
+    total: number;
+    unread: number;
+  };
+  profileViews: ProfileViewCounts;
+  matchScore: number;
+  lastUpdated: Date;
+}
+
+class StatsService {
+  /**
+   * Compute connection and messaging statistics for a user
+   */
+  async getNetworkStats(userId: mongoose.Types.ObjectId): Promise<NetworkStats> {
+    // Get total connections (accepted only)
+    const totalConnections = await Connection.countDocuments({
+      participants: userId,
+      status: 'accepted',
+    });
+
+    // Get pending connection requests (received)
+    const pendingRequests = await Connection.countDocuments({
+      participants: userId,
+      status: 'pending',
+      initiator: { $ne: userId },
+    });
+
+    // Get total messages sent by the user
+    const messagesSent = await Message.countDocuments({
+      senderId: userId,
+    });
+
+    // Get total messages received by the user
+    const messagesReceived = await Message.countDocuments({
+      receiverId: userId,
+    });
+
+    // Get unread messages count
+    const unreadMessages = await Message.countDocuments({
+      receiverId: userId,
+      status: { $ne: 'read' },
+    });
+
+    // Profile views (one per viewer per day)
+    const profileViews = await profileViewService.getCounts(userId);
+
+    // Calculate match score based on various factors
+    const matchScore = await this.calculateMatchScore(userId.toString());
+
+    // Get recent connections (last 7 days)
+    const sevenDaysAgo = new Date();
+    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+
+    const recentConnections = await Connection.countDocuments({
+      participants: userId,
+      status: 'accepted',
+      updatedAt: { $gte: sevenDaysAgo },
+    });
+
+    return {
+      connections: {
+        total: totalConnections,
+        pending: pendingRequests,
+        recent: recentConnections,
+      },
+      messages: {
+        sent: messagesSent,
+        received: messagesReceived,
+        total: messagesSent + messagesReceived,
+        unread: unreadMessages,
+      },
+      profileViews,
+      matchScore,
+      lastUpdated: new Date(),
+    };
+  }
+
+  /**
+   * Calculate match score based on user activity and profile completeness
+   */
+  async calculateMatchScore(userId: string): Promise<number> {
+    try {
+      const user = await User.findById(userId);
+      if (!user) return 0;
+
+      let score = 0;
+      const maxScore = 100;
+
+      // Profile completeness (40 points)
+      if (user.name) score += 10;
+      if (user.bio && user.bio.length > 20) score += 10;
+      if (user.interests && user.interests.length > 0) score += 10;
+      if (user.profession) score += 10;
+
+      // Network activity (30 points)
+      const connectionCount = await Connection.countDocuments({
+        participants: userId,
+        status: 'accepted',
+      });
+
+      if (connectionCount > 0) score += 10;
+      if (connectionCount >= 5) score += 10;
+      if (connectionCount >= 10) score += 10;
+
+      // Messaging activity (30 points)
+      const messageCount = await Message.countDocuments({
+        $or: [{ senderId: userId }, { receiverId: userId }],
+      });
+
+      if (messageCount > 0) score += 10;
+      if (messageCount >= 10) score += 10;
+      if (messageCount >= 50) score += 10;
+
+      return Math.min(score, maxScore);
+    } catch (error) {
+      console.error('Error calculating match score:', error);
+      return 0;
+    }
+  }
+}
+
+export default new StatsService();
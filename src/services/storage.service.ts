@@ -0,0 +1,158 @@
+import { promises as fs } from 'fs';
+import { dirname, resolve, sep } from 'path';
+import { DeleteObjectsCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { config } from '@config/env';
+
+export interface StoredObjectOptions {
+  contentType: string;
+  cacheControl?: string;
+}
+
+/**
+ * A storage driver keeps uploaded files under a key (e.g. "avatars/<id>/128.webp").
+ * Implement this interface to plug in another backend.
+ */
+export interface StorageDriver {
+  put: (_key: string, _body: Buffer, _options: StoredObjectOptions) => Promise<void>;
+  delete: (_keys: string[]) => Promise<void>;
+  getUrl: (_key: string) => string;
+}
+
+// Stored files never change - a new upload gets a new key
+export const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * Keeps files on the local filesystem; the app serves them at the public URL
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private directory: string;
+  private publicUrl: string;
+
+  constructor(directory: string, publicUrl: string) {
+    this.directory = resolve(directory);
+    this.publicUrl = publicUrl.replace(/\/+$/, '');
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => fs.rm(this.resolveKey(key), { force: true })));
+
+    // Remove the version folders left empty
+    const folders = new Set(keys.map((key) => dirname(this.resolveKey(key))));
+    await Promise.all(
+      Array.from(folders).map((folder) => fs.rmdir(folder).catch(() => undefined))
+    );
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = resolve(this.directory, key);
+
+    if (!filePath.startsWith(this.directory + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
+
+/**
+ * Stores files in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2, ...)
+ */
+export class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+  private bucket: string;
+  private publicUrl: string;
+
+  constructor() {
+    this.bucket = config.S3_BUCKET;
+    this.client = new S3Client({
+      region: config.S3_REGION,
+      endpoint: config.S3_ENDPOINT || undefined,
+      forcePathStyle: config.S3_FORCE_PATH_STYLE,
+      ...(config.S3_ACCESS_KEY_ID && {
+        credentials: {
+          accessKeyId: config.S3_ACCESS_KEY_ID,
+          secretAccessKey: config.S3_SECRET_ACCESS_KEY,
+        },
+      }),
+    });
+    this.publicUrl = (
+      config.S3_PUBLIC_URL || `https://${this.bucket}.s3.${config.S3_REGION}.amazonaws.com`
+    ).replace(/\/+$/, '');
+  }
+
+  async put(key: string, body: Buffer, options: StoredObjectOptions): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        CacheControl: options.cacheControl,
+      })
+    );
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    await this.client.send(
+      new DeleteObjectsCommand({
+        Bucket: this.bucket,
+        Delete: { Objects: keys.map((key) => ({ Key: key })), Quiet: true },
+      })
+    );
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+}
+
+class StorageService {
+  private driver: StorageDriver;
+
+  constructor() {
+    this.driver = this.createDriver();
+  }
+
+  /**
+   * Replace the active driver (e.g. with another backend)
+   */
+  setDriver(driver: StorageDriver): void {
+    this.driver = driver;
+  }
+
+  async put(key: string, body: Buffer, options: StoredObjectOptions): Promise<void> {
+    await this.driver.put(key, body, options);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await this.driver.delete(keys);
+  }
+
+  getUrl(key: string): string {
+    return this.driver.getUrl(key);
+  }
+
+  private createDriver(): StorageDriver {
+    switch (config.STORAGE_DRIVER) {
+      case 's3':
+        return new S3StorageDriver();
+      default:
+        return new LocalStorageDriver(config.UPLOAD_DIR, config.UPLOAD_PUBLIC_URL);
+    }
+  }
+}
+
+export default new StorageService();
@@ -0,0 +1,343 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import mongoose from 'mongoose';
+import { ITag, Tag } from '@models/Tag';
+import { Skill, User } from '@models/User';
+import { Endorsement, EndorsementType } from '@models/Endorsement';
+import { escapeRegex } from '@utils/validation';
+
+export interface TagSuggestion {
+  slug: string;
+  name: string;
+  category?: string;
+  isCategory: boolean;
+  // Alias the query matched, when it was not the name
+  matchedAlias?: string;
+}
+
+export interface TagCategory {
+  slug: string;
+  name: string;
+  aliases: string[];
+  tags: Array<{ slug: string; name: string; aliases: string[] }>;
+}
+
+export interface TagSearchTerms {
+  // Canonical names, including the tags of matched categories
+  names: string[];
+  // Pattern matching whole names and aliases in free-text fields
+  pattern: string;
+}
+
+export interface TagMigrationResult {
+  users: number;
+  updated: number;
+}
+
+interface TaxonomyEntry {
+  name: string;
+  aliases?: string[];
+  tags?: TaxonomyEntry[];
+}
+
+interface TagIndex {
+  tags: ITag[];
+  byKey: Map<string, ITag>;
+  byId: Map<string, ITag>;
+  loadedAt: number;
+}
+
+const DEFAULT_TAXONOMY_FILE = join(__dirname, '..', 'data', 'tags.json');
+
+// Tags rarely change - reload them from the database every few minutes
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Lookup key: lowercase words, ignoring punctuation ("Node.js" -> "node js")
+ */
+export const toTagKey = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9+#]+/g, ' ')
+    .trim();
+
+const toSlug = (name: string): string =>
+  toTagKey(name).replace(/\+/g, 'plus').replace(/#/g, 'sharp').replace(/ /g, '-');
+
+class TagService {
+  private index?: TagIndex;
+
+  /**
+   * Replace names with their canonical tag and drop duplicates and blanks.
+   * Names without a tag are kept as written.
+   */
+  async normalize(names: unknown): Promise<string[]> {
+    if (!Array.isArray(names)) return [];
+
+    const { byKey } = await this.getIndex();
+    const seen = new Set<string>();
+    const result: string[] = [];
+
+    for (const value of names) {
+      if (typeof value !== 'string') continue;
+
+      const cleaned = value.trim().replace(/\s+/g, ' ');
+      if (!cleaned) continue;
+
+      const name = byKey.get(toTagKey(cleaned))?.name || cleaned;
+      if (seen.has(name.toLowerCase())) continue;
+
+      seen.add(name.toLowerCase());
+      result.push(name);
+    }
+
+    return result;
+  }
+
+  /**
+   * Canonical name of a single interest or skill
+   */
+  async canonicalName(name: string): Promise<string> {
+    const { byKey } = await this.getIndex();
+    const cleaned = name.trim().replace(/\s+/g, ' ');
+    return byKey.get(toTagKey(cleaned))?.name || cleaned;
+  }
+
+  /**
+   * Tags whose name or an alias starts with the query, best matches first
+   */
+  async autocomplete(query: string, limit: number, categorySlug?: string): Promise<TagSuggestion[]> {
+    const key = toTagKey(query);
+    if (!key) return [];
+
+    const { tags, byId } = await this.getIndex();
+    const category = categorySlug ? tags.find((tag) => tag.slug === categorySlug) : undefined;
+    if (categorySlug && !category) return [];
+
+    const ranked: Array<{ tag: ITag; rank: number; alias?: string }> = [];
+
+    for (const tag of tags) {
+      if (category && !tag._id.equals(category._id) && !tag.parent?.equals(category._id)) continue;
+
+      const nameKey = toTagKey(tag.name);
+      const alias = tag.aliases.find((entry) => toTagKey(entry).startsWith(key));
+
+      let rank: number | undefined;
+      if (nameKey.startsWith(key)) rank = 0;
+      else if (alias) rank = 1;
+      else if (nameKey.split(' ').some((word) => word.startsWith(key))) rank = 2;
+      else if (nameKey.includes(key)) rank = 3;
+
+      if (rank !== undefined) ranked.push({ tag, rank, alias: rank === 1 ? alias : undefined });
+    }
+
+    return ranked
+      .sort(
+        (a, b) =>
+          a.rank - b.rank ||
+          a.tag.name.length - b.tag.name.length ||
+          a.tag.name.localeCompare(b.tag.name)
+      )
+      .slice(0, limit)
+      .map(({ tag, alias }) => ({
+        slug: tag.slug,
+        name: tag.name,
+        category: tag.parent ? byId.get(tag.parent.toString())?.name : undefined,
+        isCategory: !tag.parent,
+        matchedAlias: alias,
+      }));
+  }
+
+  /**
+   * Categories with their tags
+   */
+  async getTaxonomy(): Promise<TagCategory[]> {
+    const { tags } = await this.getIndex();
+    const format = (tag: ITag) => ({ slug: tag.slug, name: tag.name, aliases: tag.aliases });
+
+    return tags
+      .filter((tag) => !tag.parent)
+      .map((category) => ({
+        ...format(category),
+        tags: tags.filter((tag) => tag.parent?.equals(category._id)).map(format),
+      }));
+  }
+
+  /**
+   * Tags mentioned in free text (e.g. a chatbot message)
+   */
+  async findInText(text: string): Promise<ITag[]> {
+    const { tags } = await this.getIndex();
+    const padded = ` ${toTagKey(text)} `;
+
+    return tags.filter((tag) => tag.keys.some((key) => padded.includes(` ${key} `)));
+  }
+
+  /**
+   * Terms for finding users by tags; a category also matches its tags
+   */
+  async getSearchTerms(tags: ITag[]): Promise<TagSearchTerms> {
+    const index = await this.getIndex();
+    const matched = new Map<string, ITag>();
+
+    for (const tag of tags) {
+      matched.set(tag._id.toString(), tag);
+      if (!tag.parent) {
+        index.tags
+          .filter((child) => child.parent?.equals(tag._id))
+          .forEach((child) => matched.set(child._id.toString(), child));
+      }
+    }
+
+    const selected = Array.from(matched.values());
+    const terms = selected.flatMap((tag) => [tag.name, ...tag.aliases]);
+
+    return {
+      names: selected.map((tag) => tag.name),
+      pattern: `\\b(?:${terms.map(escapeRegex).join('|')})\\b`,
+    };
+  }
+
+  /**
+   * Create or update the bundled taxonomy (src/data/tags.json)
+   * @returns Number of tags written
+   */
+  async syncDefaultTags(file = DEFAULT_TAXONOMY_FILE): Promise<number> {
+    const taxonomy = JSON.parse(readFileSync(file, 'utf8')) as TaxonomyEntry[];
+    const owners = new Map<string, string>();
+    let count = 0;
+
+    const keysFor = (entry: TaxonomyEntry): string[] => {
+      const keys = Array.from(new Set([entry.name, ...(entry.aliases || [])].map(toTagKey)));
+
+      // A unique index would reject the write - report the culprit instead
+      keys.forEach((key) => {
+        const owner = owners.get(key);
+        if (owner && owner !== entry.name) {
+          throw new Error(`Tag key "${key}" is used by both "${owner}" and "${entry.name}"`);
+        }
+        owners.set(key, entry.name);
+      });
+
+      return keys;
+    };
+
+    const upsert = async (entry: TaxonomyEntry, parent?: mongoose.Types.ObjectId) => {
+      const fields = { name: entry.name, aliases: entry.aliases || [], keys: keysFor(entry) };
+      const tag = await Tag.findOneAndUpdate(
+        { slug: toSlug(entry.name) },
+        parent ? { $set: { ...fields, parent } } : { $set: fields, $unset: { parent: 1 } },
+        { upsert: true, new: true }
+      );
+      count += 1;
+      return tag;
+    };
+
+    for (const category of taxonomy) {
+      const categoryTag = await upsert(category);
+      for (const entry of category.tags || []) {
+        await upsert(entry, categoryTag._id);
+      }
+    }
+
+    this.clearCache();
+    return count;
+  }
+
+  /**
+   * Rewrite every user's interests and skills with canonical names,
+   * moving endorsements to the new names
+   */
+  async migrateUsers(): Promise<TagMigrationResult> {
+    const result: TagMigrationResult = { users: 0, updated: 0 };
+    const cursor = User.find({}).select('interests skills').cursor();
+
+    for await (const user of cursor) {
+      result.users += 1;
+
+      const interests = await this.normalize(user.interests || []);
+      const renamed: Array<{ type: EndorsementType; from: string; to: string }> = [];
+
+      for (const name of user.interests || []) {
+        const canonical = await this.canonicalName(name);
+        if (canonical !== name) renamed.push({ type: 'interest', from: name, to: canonical });
+      }
+
+      const skills: Skill[] = [];
+      for (const skill of user.skills) {
+        const canonical = await this.canonicalName(skill.name);
+        if (canonical !== skill.name) renamed.push({ type: 'skill', from: skill.name, to: canonical });
+
+        // Keep the first entry when two skills become the same tag
+        if (skills.some((entry) => entry.name.toLowerCase() === canonical.toLowerCase())) continue;
+        skills.push({ _id: skill._id, name: canonical, level: skill.level });
+      }
+
+      const changed =
+        renamed.length > 0 ||
+        interests.length !== (user.interests || []).length ||
+        skills.length !== user.skills.length;
+      if (!changed) continue;
+
+      await User.updateOne({ _id: user._id }, { $set: { interests, skills } });
+      for (const { type, from, to } of renamed) {
+        await this.moveEndorsements(user._id, type, from, to);
+      }
+      result.updated += 1;
+    }
+
+    return result;
+  }
+
+  clearCache(): void {
+    this.index = undefined;
+  }
+
+  private async moveEndorsements(
+    userId: mongoose.Types.ObjectId,
+    type: EndorsementType,
+    from: string,
+    to: string
+  ): Promise<void> {
+    const endorsements = await Endorsement.find({
+      endorseeId: userId,
+      type,
+      key: from.trim().toLowerCase(),
+    });
+
+    for (const endorsement of endorsements) {
+      try {
+        await Endorsement.updateOne(
+          { _id: endorsement._id },
+          { $set: { name: to, key: to.toLowerCase() } }
+        );
+      } catch (error) {
+        // The endorser already endorsed the canonical name
+        if ((error as { code?: number }).code !== 11000) throw error;
+        await Endorsement.deleteOne({ _id: endorsement._id });
+      }
+    }
+  }
+
+  private async getIndex(): Promise<TagIndex> {
+    if (this.index && Date.now() - this.index.loadedAt < CACHE_TTL_MS) {
+      return this.index;
+    }
+
+    const tags = await Tag.find().sort({ name: 1 });
+    const byKey = new Map<string, ITag>();
+    tags.forEach((tag) => tag.keys.forEach((key) => byKey.set(key, tag)));
+
+    this.index = {
+      tags,
+      byKey,
+      byId: new Map(tags.map((tag) => [tag._id.toString(), tag])),
+      loadedAt: Date.now(),
+    };
+
+    return this.index;
+  }
+}
+
+export default new TagService();
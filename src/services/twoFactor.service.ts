@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { config } from '@config/env';
+import { IUser } from '@models/User';
+import { hashToken, safeCompare } from '@utils/token';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '@utils/totp';
+
+// Fields needed to check a second factor
+export const TWO_FACTOR_FIELDS = '+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+const RECOVERY_CODE_COUNT = 10;
+
+class TwoFactorService {
+  /**
+   * Start enrollment: store a pending secret until the user confirms it
+   */
+  startEnrollment(user: IUser): { secret: string; otpauthUri: string } {
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, config.TOTP_ISSUER),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   * @returns Plaintext recovery codes (shown to the user once), or null if the code is wrong
+   */
+  confirmEnrollment(user: IUser, code: string): string[] | null {
+    if (!user.twoFactorPendingSecret) return null;
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) return null;
+
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorEnabled = true;
+    user.twoFactorLastUsedStep = step;
+
+    return this.regenerateRecoveryCodes(user);
+  }
+
+  /**
+   * Turn 2FA off and forget all secrets
+   */
+  disable(user: IUser): void {
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = undefined;
+    user.twoFactorLastUsedStep = undefined;
+  }
+
+  /**
+   * Check a TOTP code or a recovery code.
+   * Each TOTP code and each recovery code can only be used once.
+   * User must be loaded with TWO_FACTOR_FIELDS; caller saves the user.
+   */
+  verifyCode(user: IUser, code?: string, recoveryCode?: string): boolean {
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+    if (code) {
+      const step = verifyTotp(user.twoFactorSecret, code);
+
+      // Reject replay of a code that was already accepted
+      if (step === null || (user.twoFactorLastUsedStep !== undefined && step <= user.twoFactorLastUsedStep)) {
+        return false;
+      }
+
+      user.twoFactorLastUsedStep = step;
+      return true;
+    }
+
+    if (recoveryCode) {
+      const presentedHash = hashToken(this.normalizeRecoveryCode(recoveryCode));
+      const codes = user.twoFactorRecoveryCodes || [];
+      const index = codes.findIndex((hash) => safeCompare(presentedHash, hash));
+
+      if (index === -1) return false;
+
+      user.twoFactorRecoveryCodes = codes.filter((_hash, i) => i !== index);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Replace the user's recovery codes
+   * @returns Plaintext recovery codes
+   */
+  regenerateRecoveryCodes(user: IUser): string[] {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    user.twoFactorRecoveryCodes = codes.map((code) => hashToken(this.normalizeRecoveryCode(code)));
+
+    return codes;
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return String(code).toLowerCase().replace(/[^a-f0-9]/g, '');
+  }
+}
+
+export default new TwoFactorService();
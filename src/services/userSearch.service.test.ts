@@ -0,0 +1,39 @@
+import mongoose from 'mongoose';
+import { decodeCursor, encodeCursor, UserSearchError } from '@services/userSearch.service';
+
+const toBase64Url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('search cursors', () => {
+  it('round-trips the score and id of the last result', () => {
+    const id = new mongoose.Types.ObjectId();
+    const cursor = decodeCursor(encodeCursor({ score: 12.5, id }));
+
+    expect(cursor.score).toBe(12.5);
+    expect(cursor.id.equals(id)).toBe(true);
+  });
+
+  it('is safe to put in a query string', () => {
+    const cursor = encodeCursor({ score: 3, id: new mongoose.Types.ObjectId() });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it.each([
+    ['not base64 JSON', 'not-a-cursor'],
+    ['an empty value', ''],
+    ['a missing score', toBase64Url({ id: new mongoose.Types.ObjectId().toString() })],
+    ['a string score', toBase64Url({ s: '3', id: new mongoose.Types.ObjectId().toString() })],
+    ['an invalid id', toBase64Url({ s: 3, id: 'nope' })],
+    ['a non-object', toBase64Url(null)],
+  ])('rejects %s with a 400', (_label, value) => {
+    let error: unknown;
+    try {
+      decodeCursor(value);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(UserSearchError);
+    expect(error).toMatchObject({ message: 'Invalid cursor', statusCode: 400 });
+  });
+});
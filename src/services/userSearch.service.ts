@@ -0,0 +1,351 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import { DISCOVERABLE_USER_FILTER, User } from '@models/User';
+import privacyService from '@services/privacy.service';
+import tagService from '@services/tag.service';
+import locationService from '@services/location.service';
+import { escapeRegex } from '@utils/validation';
+
+export class UserSearchError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'UserSearchError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface UserSearchOptions {
+  query?: string;
+  profession?: string;
+  interests?: string[];
+  verified?: boolean;
+  // Only users with a live socket connection
+  online?: boolean;
+  // Only users sharing a location within this distance of the viewer's
+  radiusKm?: number;
+  cursor?: string;
+  limit: number;
+}
+
+export interface FacetCount {
+  name: string;
+  count: number;
+}
+
+export interface UserSearchFacets {
+  professions: FacetCount[];
+  interests: FacetCount[];
+  verified: { verified: number; unverified: number };
+  online: number;
+}
+
+export interface UserSearchHit {
+  userId: string;
+  username?: string;
+  name?: string;
+  profession?: string;
+  bio?: string;
+  interests?: string[];
+  avatar?: string;
+  verified?: boolean;
+  lastActive?: Date;
+  isOnline: boolean;
+  isConnected: boolean;
+  relevance: number;
+}
+
+export interface UserSearchResult {
+  users: UserSearchHit[];
+  facets: UserSearchFacets;
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface SearchCursor {
+  score: number;
+  id: mongoose.Types.ObjectId;
+}
+
+// Only the first few words of a query are used
+const MAX_QUERY_TERMS = 5;
+const FACET_SIZE = 10;
+
+// Relevance points for each query word found in a field
+const WEIGHTS = {
+  name: 4,
+  username: 4,
+  // Name or username starting with the word
+  wordStart: 2,
+  profession: 3,
+  interests: 2,
+  bio: 1,
+  // Interest that is the canonical tag of a word or phrase in the query
+  tag: 3,
+};
+
+const RESULT_PROJECTION = {
+  username: 1,
+  name: 1,
+  profession: 1,
+  bio: 1,
+  interests: 1,
+  avatar: 1,
+  verified: 1,
+  lastActive: 1,
+  privacy: 1,
+  score: 1,
+};
+
+const regexMatch = (input: string, regex: string) => ({
+  $regexMatch: { input: { $ifNull: [input, ''] }, regex, options: 'i' },
+});
+
+const weigh = (condition: unknown, weight: number) => ({ $cond: [condition, weight, 0] });
+
+/**
+ * Opaque position after the last result of a page
+ */
+export const encodeCursor = (cursor: SearchCursor): string =>
+  Buffer.from(JSON.stringify({ s: cursor.score, id: cursor.id.toString() })).toString('base64url');
+
+export const decodeCursor = (value: string): SearchCursor => {
+  try {
+    const { s, id } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof s === 'number' && typeof id === 'string' && mongoose.Types.ObjectId.isValid(id)) {
+      return { score: s, id: new mongoose.Types.ObjectId(id) };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new UserSearchError('Invalid cursor');
+};
+
+class UserSearchService {
+  /**
+   * Search discoverable users by text and filters, most relevant first.
+   * Bio and interests are only searched and counted where the viewer may see them.
+   */
+  async search(
+    viewerId: mongoose.Types.ObjectId,
+    options: UserSearchOptions,
+    onlineUserIds: string[]
+  ): Promise<UserSearchResult> {
+    const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+    const terms = (options.query || '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, MAX_QUERY_TERMS)
+      .map(escapeRegex);
+    const tagNames = options.query
+      ? (await tagService.findInText(options.query)).map((tag) => tag.name)
+      : [];
+    const interests = await tagService.normalize(options.interests || []);
+    const center = options.radiusKm ? await locationService.getCurrent(viewerId) : undefined;
+
+    if (center === null) {
+      throw new UserSearchError('Share your current location to search by distance');
+    }
+
+    const [connectedIds, blockedIds] = await Promise.all([
+      privacyService.getConnectedUserIds(viewerId),
+      privacyService.getBlockedUserIds(viewerId),
+    ]);
+    const online = onlineUserIds
+      .filter((id) => mongoose.Types.ObjectId.isValid(id))
+      .map((id) => new mongoose.Types.ObjectId(id));
+
+    // Cheap pre-filter; visibility and scoring are applied below
+    const match: Record<string, unknown> = {
+      ...DISCOVERABLE_USER_FILTER,
+      _id: { $nin: [viewerId, ...blockedIds], ...(options.online ? { $in: online } : {}) },
+    };
+    if (options.verified !== undefined) {
+      match.verified = options.verified ? true : { $ne: true };
+    }
+    if (center && options.radiusKm) {
+      Object.assign(match, locationService.withinRadiusFilter(center, options.radiusKm));
+    }
+    if (options.profession) {
+      match.profession = new RegExp(escapeRegex(options.profession), 'i');
+    }
+    if (terms.length > 0) {
+      const pattern = new RegExp(terms.join('|'), 'i');
+      match.$or = [
+        ...['name', 'username', 'profession', 'interests', 'bio'].map((field) => ({
+          [field]: pattern,
+        })),
+        ...(tagNames.length > 0 ? [{ interests: { $in: tagNames } }] : []),
+      ];
+    }
+
+    const pipeline: PipelineStage[] = [
+      { $match: match },
+      {
+        $addFields: {
+          interestsVisible: privacyService.visibleFieldExpression('interests', connectedIds),
+          bioVisible: privacyService.visibleFieldExpression('bio', connectedIds),
+        },
+      },
+    ];
+
+    if (interests.length > 0) {
+      pipeline.push({ $match: { interests: { $in: interests }, interestsVisible: true } });
+    }
+
+    if (terms.length > 0) {
+      pipeline.push(
+        { $addFields: { score: this.scoreExpression(terms, tagNames) } },
+        // Drop users who only matched in fields hidden from the viewer
+        { $match: { score: { $gt: 0 } } }
+      );
+    } else {
+      pipeline.push({ $addFields: { score: 0 } });
+    }
+
+    pipeline.push({
+      $facet: {
+        results: [
+          ...(cursor
+            ? [
+                {
+                  $match: {
+                    $or: [
+                      { score: { $lt: cursor.score } },
+                      { score: cursor.score, _id: { $lt: cursor.id } },
+                    ],
+                  },
+                },
+              ]
+            : []),
+          { $sort: { score: -1, _id: -1 } },
+          { $limit: options.limit + 1 },
+          { $project: RESULT_PROJECTION },
+        ],
+        total: [{ $count: 'count' }],
+        professions: [
+          { $match: { profession: { $nin: [null, ''] } } },
+          {
+            $group: {
+              _id: { $toLower: '$profession' },
+              name: { $first: '$profession' },
+              count: { $sum: 1 },
+            },
+          },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: FACET_SIZE },
+        ],
+        interests: [
+          { $match: { interestsVisible: true } },
+          { $unwind: '$interests' },
+          { $group: { _id: '$interests', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: FACET_SIZE },
+        ],
+        verified: [{ $group: { _id: { $eq: ['$verified', true] }, count: { $sum: 1 } } }],
+        online: [{ $match: { _id: { $in: online } } }, { $count: 'count' }],
+      },
+    });
+
+    const [result] = await User.aggregate(pipeline);
+    const rows = result.results as Array<Record<string, unknown> & { score: number }>;
+    const page = rows.slice(0, options.limit);
+    const last = page[page.length - 1];
+    const onlineSet = new Set(onlineUserIds);
+
+    const users = page.map(({ score, ...row }) => {
+      const user = privacyService.redact(
+        User.hydrate(row),
+        privacyService.relationFor(viewerId, row._id as mongoose.Types.ObjectId, connectedIds)
+      );
+      const userId = user._id.toString();
+
+      return {
+        userId,
+        username: user.username,
+        name: user.name,
+        profession: user.profession,
+        bio: user.bio,
+        interests: user.interests,
+        avatar: user.avatar,
+        verified: user.verified,
+        lastActive: user.lastActive,
+        isOnline: onlineSet.has(userId),
+        isConnected: connectedIds.has(userId),
+        relevance: score,
+      };
+    });
+
+    const verified = result.verified as Array<{ _id: boolean; count: number }>;
+
+    return {
+      users,
+      facets: {
+        professions: (result.professions as Array<{ name: string; count: number }>).map(
+          ({ name, count }) => ({ name, count })
+        ),
+        interests: (result.interests as Array<{ _id: string; count: number }>).map(
+          ({ _id, count }) => ({ name: _id, count })
+        ),
+        verified: {
+          verified: verified.find((entry) => entry._id)?.count || 0,
+          unverified: verified.find((entry) => !entry._id)?.count || 0,
+        },
+        online: result.online[0]?.count || 0,
+      },
+      total: result.total[0]?.count || 0,
+      nextCursor:
+        rows.length > options.limit && last
+          ? encodeCursor({ score: last.score, id: last._id as mongoose.Types.ObjectId })
+          : null,
+    };
+  }
+
+  /**
+   * Relevance: points for every query word found in a visible field
+   */
+  private scoreExpression(terms: string[], tagNames: string[]): Record<string, unknown> {
+    const interests = { $ifNull: ['$interests', []] };
+    const points = terms.flatMap((term) => [
+      weigh(regexMatch('$name', term), WEIGHTS.name),
+      weigh(regexMatch('$username', term), WEIGHTS.username),
+      weigh(
+        { $or: [regexMatch('$name', `(^|\\s)${term}`), regexMatch('$username', `^${term}`)] },
+        WEIGHTS.wordStart
+      ),
+      weigh(regexMatch('$profession', term), WEIGHTS.profession),
+      weigh(
+        {
+          $and: [
+            '$interestsVisible',
+            {
+              $anyElementTrue: [
+                { $map: { input: interests, as: 'interest', in: regexMatch('$$interest', term) } },
+              ],
+            },
+          ],
+        },
+        WEIGHTS.interests
+      ),
+      weigh({ $and: ['$bioVisible', regexMatch('$bio', term)] }, WEIGHTS.bio),
+    ]);
+
+    if (tagNames.length > 0) {
+      points.push(
+        weigh(
+          {
+            $and: [
+              '$interestsVisible',
+              { $gt: [{ $size: { $setIntersection: [interests, tagNames] } }, 0] },
+            ],
+          },
+          WEIGHTS.tag
+        )
+      );
+    }
+
+    return { $add: points };
+  }
+}
+
+export default new UserSearchService();
@@ -1,9 +1,12 @@
 import { IUser } from '@models/User';
+import { IApiKey } from '@models/ApiKey';
 
 declare global {
   namespace Express {
     interface Request {
       user?: IUser;
+      sessionId?: string;
+      apiKey?: IApiKey;
     }
   }
 }
@@ -0,0 +1,41 @@
+// First characters that make spreadsheet apps treat a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a single CSV cell (RFC 4180)
+ */
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Array.isArray(value)) {
+    text = value.join('; ');
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  // Spreadsheets run text starting with these as a formula - keep it as text
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Convert rows to CSV with a header line
+ * @param columns - Keys to export, in order
+ */
+export const toCsv = (rows: Array<Record<string, unknown>>, columns: string[]): string => {
+  const lines = [columns.map(escapeCsvValue).join(',')];
+
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvValue(row[column])).join(','));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+};
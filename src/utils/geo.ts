@@ -0,0 +1,37 @@
+// Radius used by MongoDB for spherical geometry ($centerSphere)
+export const EARTH_RADIUS_KM = 6378.1;
+
+/**
+ * Check that a latitude / longitude pair is a real position
+ */
+export const isValidCoordinates = (latitude: unknown, longitude: unknown): boolean =>
+  typeof latitude === 'number' &&
+  typeof longitude === 'number' &&
+  Number.isFinite(latitude) &&
+  Number.isFinite(longitude) &&
+  latitude >= -90 &&
+  latitude <= 90 &&
+  longitude >= -180 &&
+  longitude <= 180;
+
+/**
+ * Round a coordinate to a number of decimal places (2 is about 1 km)
+ */
+export const roundCoordinate = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Great-circle distance between two [longitude, latitude] points in meters
+ */
+export const distanceMeters = (a: [number, number], b: [number, number]): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * 1000 * Math.asin(Math.min(1, Math.sqrt(h)));
+};
@@ -0,0 +1,35 @@
+export type ImageType = 'jpeg' | 'png' | 'gif' | 'webp';
+
+interface Signature {
+  type: ImageType;
+  offset: number;
+  bytes: number[];
+}
+
+// File signatures ("magic bytes") of the accepted formats
+const SIGNATURES: Signature[] = [
+  { type: 'jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { type: 'png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { type: 'webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] }, // WEBP after the RIFF header
+];
+
+const RIFF = [0x52, 0x49, 0x46, 0x46];
+
+const matches = (buffer: Buffer, offset: number, bytes: number[]): boolean =>
+  buffer.length >= offset + bytes.length &&
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+/**
+ * Detect the image format from the file content, ignoring the client's
+ * file name and content type
+ * @returns The format, or null when it is not an accepted image
+ */
+export const detectImageType = (buffer: Buffer): ImageType | null => {
+  for (const signature of SIGNATURES) {
+    if (signature.type === 'webp' && !matches(buffer, 0, RIFF)) continue;
+    if (matches(buffer, signature.offset, signature.bytes)) return signature.type;
+  }
+
+  return null;
+};
@@ -4,14 +4,15 @@ import { config } from '@config/env';
 export interface JwtPayload {
   userId: string;
   email: string;
+  sessionId: string;
 }
 
 /**
- * Generate JWT token
+ * Generate short-lived access token
  */
 export const generateToken = (payload: JwtPayload): string => {
   return jwt.sign(payload, config.JWT_SECRET, {
-    expiresIn: config.JWT_EXPIRE,
+    expiresIn: config.JWT_ACCESS_EXPIRE,
   } as jwt.SignOptions);
 };
 
@@ -26,3 +27,35 @@ export const verifyToken = (token: string): JwtPayload => {
   }
 };
 
+export interface ChallengePayload {
+  userId: string;
+  purpose: '2fa_challenge';
+}
+
+/**
+ * Generate short-lived token proving the password step of a 2FA login
+ */
+export const generateChallengeToken = (userId: string): string => {
+  const payload: ChallengePayload = { userId, purpose: '2fa_challenge' };
+
+  return jwt.sign(payload, config.JWT_SECRET, {
+    expiresIn: config.TWO_FACTOR_CHALLENGE_EXPIRE,
+  } as jwt.SignOptions);
+};
+
+/**
+ * Verify 2FA challenge token
+ */
+export const verifyChallengeToken = (token: string): ChallengePayload => {
+  try {
+    const decoded = jwt.verify(token, config.JWT_SECRET) as ChallengePayload;
+
+    if (decoded.purpose !== '2fa_challenge') {
+      throw new Error('Wrong token purpose');
+    }
+
+    return decoded;
+  } catch {
+    throw new Error('Invalid or expired challenge token');
+  }
+};
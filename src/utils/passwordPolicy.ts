@@ -0,0 +1,191 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { config } from '@config/env';
+
+export type PasswordRule =
+  | 'min_length'
+  | 'max_length'
+  | 'lowercase'
+  | 'uppercase'
+  | 'number'
+  | 'symbol'
+  | 'personal_info'
+  | 'common_password';
+
+export interface PasswordRuleFailure {
+  rule: PasswordRule;
+  message: string;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  disallowPersonalInfo: boolean;
+  blockCommonPasswords: boolean;
+}
+
+// Details about the account that must not appear in the password
+export interface PasswordContext {
+  email?: string;
+  name?: string;
+  username?: string;
+}
+
+export interface PasswordValidationResult {
+  valid: boolean;
+  failures: PasswordRuleFailure[];
+}
+
+// Shorter fragments (initials, "jo") would reject too many valid passwords
+const MIN_PERSONAL_FRAGMENT_LENGTH = 3;
+
+const DEFAULT_BLOCKLIST_FILE = join(__dirname, '..', 'data', 'common-passwords.txt');
+
+let commonPasswords: Set<string> | undefined;
+
+/**
+ * Policy configured through the environment
+ */
+export const getPasswordPolicy = (): PasswordPolicy => ({
+  minLength: config.PASSWORD_MIN_LENGTH,
+  maxLength: config.PASSWORD_MAX_LENGTH,
+  requireLowercase: config.PASSWORD_REQUIRE_LOWERCASE,
+  requireUppercase: config.PASSWORD_REQUIRE_UPPERCASE,
+  requireNumber: config.PASSWORD_REQUIRE_NUMBER,
+  requireSymbol: config.PASSWORD_REQUIRE_SYMBOL,
+  disallowPersonalInfo: config.PASSWORD_DISALLOW_PERSONAL_INFO,
+  blockCommonPasswords: config.PASSWORD_BLOCK_COMMON,
+});
+
+/**
+ * Load the common-password blocklist once (one password per line, # for comments)
+ */
+const getCommonPasswords = (): Set<string> => {
+  if (!commonPasswords) {
+    const file = config.PASSWORD_BLOCKLIST_FILE || DEFAULT_BLOCKLIST_FILE;
+
+    try {
+      commonPasswords = new Set(
+        readFileSync(file, 'utf8')
+          .split(/\r?\n/)
+          .map((line) => line.trim().toLowerCase())
+          .filter((line) => line && !line.startsWith('#'))
+      );
+    } catch (error) {
+      console.error(`Could not load password blocklist from ${file}:`, error);
+      commonPasswords = new Set();
+    }
+  }
+
+  return commonPasswords;
+};
+
+/**
+ * Check whether a password is on the blocklist, also catching
+ * common passwords with digits or symbols appended ("Password2024!")
+ */
+const isCommonPassword = (password: string): boolean => {
+  const blocklist = getCommonPasswords();
+  const normalized = password.toLowerCase();
+  const base = normalized.replace(/[\d\W_]+$/, '');
+
+  return blocklist.has(normalized) || (base.length >= 4 && blocklist.has(base));
+};
+
+/**
+ * Collect fragments of personal details (email local part, name parts, username)
+ */
+const getPersonalFragments = (context: PasswordContext): string[] => {
+  const fragments = [
+    context.email?.split('@')[0],
+    context.username,
+    ...(context.name?.split(/\s+/) || []),
+  ];
+
+  return fragments
+    .map((fragment) => fragment?.trim().toLowerCase())
+    .filter(
+      (fragment): fragment is string =>
+        !!fragment && fragment.length >= MIN_PERSONAL_FRAGMENT_LENGTH
+    );
+};
+
+/**
+ * Validate a password against the policy
+ * @returns Every rule the password fails, so clients can show them all at once
+ */
+export const validatePassword = (
+  password: string,
+  context: PasswordContext = {},
+  policy: PasswordPolicy = getPasswordPolicy()
+): PasswordValidationResult => {
+  const failures: PasswordRuleFailure[] = [];
+  const value = typeof password === 'string' ? password : '';
+
+  if (value.length < policy.minLength) {
+    failures.push({
+      rule: 'min_length',
+      message: `Password must be at least ${policy.minLength} characters`,
+    });
+  }
+
+  if (value.length > policy.maxLength) {
+    failures.push({
+      rule: 'max_length',
+      message: `Password cannot exceed ${policy.maxLength} characters`,
+    });
+  }
+
+  if (policy.requireLowercase && !/[a-z]/.test(value)) {
+    failures.push({
+      rule: 'lowercase',
+      message: 'Password must contain a lowercase letter',
+    });
+  }
+
+  if (policy.requireUppercase && !/[A-Z]/.test(value)) {
+    failures.push({
+      rule: 'uppercase',
+      message: 'Password must contain an uppercase letter',
+    });
+  }
+
+  if (policy.requireNumber && !/\d/.test(value)) {
+    failures.push({
+      rule: 'number',
+      message: 'Password must contain a number',
+    });
+  }
+
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(value)) {
+    failures.push({
+      rule: 'symbol',
+      message: 'Password must contain a symbol',
+    });
+  }
+
+  if (policy.disallowPersonalInfo) {
+    const lowerValue = value.toLowerCase();
+    const fragment = getPersonalFragments(context).find((part) => lowerValue.includes(part));
+
+    if (fragment) {
+      failures.push({
+        rule: 'personal_info',
+        message: 'Password must not contain your name, username or email',
+      });
+    }
+  }
+
+  if (policy.blockCommonPasswords && value && isCommonPassword(value)) {
+    failures.push({
+      rule: 'common_password',
+      message: 'This password is too common. Please choose another one',
+    });
+  }
+
+  return { valid: failures.length === 0, failures };
+};
@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a cryptographically secure random token (hex encoded)
+ */
+export const generateRandomToken = (bytes = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+/**
+ * Generate a numeric one-time code (e.g. for codes typed in by hand)
+ */
+export const generateNumericCode = (length = 6): string => {
+  return crypto.randomInt(0, 10 ** length).toString().padStart(length, '0');
+};
+
+/**
+ * Hash a token for storage (SHA-256, hex encoded)
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Compare two hashes in constant time
+ */
+export const safeCompare = (a: string, b: string): boolean => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+
+  if (bufA.length !== bufB.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(bufA, bufB);
+};
+
+/**
+ * Generate a PKCE code verifier (RFC 7636)
+ */
+export const generateCodeVerifier = (): string => {
+  return crypto.randomBytes(32).toString('base64url');
+};
+
+/**
+ * Derive the S256 PKCE code challenge for a verifier
+ */
+export const createCodeChallenge = (codeVerifier: string): string => {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+};
@@ -0,0 +1,95 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from '@utils/totp';
+
+// RFC 6238 appendix B secret ("12345678901234567890") for SHA-1
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('base32', () => {
+  it('encodes RFC 4648 test vectors without padding', () => {
+    expect(base32Encode(Buffer.from('f'))).toBe('MY');
+    expect(base32Encode(Buffer.from('fooba'))).toBe('MZXW6YTB');
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  it('decodes case-insensitively, ignoring padding and spaces', () => {
+    expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+  });
+
+  it('round-trips generated secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Encode(base32Decode(secret))).toBe(secret);
+  });
+});
+
+describe('generateTotp', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 code at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(code);
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = 1234567890 * 1000;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the time step of a valid code', () => {
+    expect(verifyTotp(RFC_SECRET, '005924')).toBe(Math.floor(1234567890 / 30));
+  });
+
+  it('accepts spaces inside the code', () => {
+    expect(verifyTotp(RFC_SECRET, '005 924')).not.toBeNull();
+  });
+
+  it('accepts codes one step away to allow for clock drift', () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30 * 1000))).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30 * 1000))).not.toBeNull();
+  });
+
+  it('rejects codes outside the window', () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 90 * 1000))).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30 * 1000), 0)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+});
+
+describe('buildOtpauthUri', () => {
+  it('builds a URI authenticator apps understand', () => {
+    const uri = new URL(buildOtpauthUri('JBSWY3DPEHPK3PXP', 'ada@example.com', 'Synkicycle'));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/Synkicycle:ada@example.com');
+    expect(uri.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(uri.searchParams.get('issuer')).toBe('Synkicycle');
+    expect(uri.searchParams.get('digits')).toBe('6');
+    expect(uri.searchParams.get('period')).toBe('30');
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Build a short, human readable device label from a user agent string
+ * e.g. "Chrome on Windows", "Safari on iPhone"
+ */
+export const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const ua = userAgent.toLowerCase();
+
+  let browser = 'Unknown browser';
+  if (ua.includes('edg/')) browser = 'Edge';
+  else if (ua.includes('opr/') || ua.includes('opera')) browser = 'Opera';
+  else if (ua.includes('firefox/')) browser = 'Firefox';
+  else if (ua.includes('chrome/') || ua.includes('crios/')) browser = 'Chrome';
+  else if (ua.includes('safari/')) browser = 'Safari';
+  else if (ua.includes('okhttp') || ua.includes('dalvik')) browser = 'Android app';
+  else if (ua.includes('cfnetwork') || ua.includes('darwin')) browser = 'iOS app';
+  else if (ua.includes('postman')) browser = 'Postman';
+  else if (ua.includes('curl')) browser = 'curl';
+
+  let os = '';
+  if (ua.includes('iphone')) os = 'iPhone';
+  else if (ua.includes('ipad')) os = 'iPad';
+  else if (ua.includes('android')) os = 'Android';
+  else if (ua.includes('windows')) os = 'Windows';
+  else if (ua.includes('mac os') || ua.includes('macintosh')) os = 'macOS';
+  else if (ua.includes('linux')) os = 'Linux';
+
+  return os ? `${browser} on ${os}` : browser;
+};
@@ -6,13 +6,6 @@ export const isValidEmail = (email: string): boolean => {
   return emailRegex.test(email);
 };
 
-/**
- * Validate password strength
- */
-export const isValidPassword = (password: string): boolean => {
-  return password.length >= 6;
-};
-
 /**
  * Validate name
  */
@@ -28,3 +21,32 @@ export const isValidUsername = (username: string): boolean => {
   return usernameRegex.test(username);
 };
 
+
+/**
+ * Escape user input for use inside a RegExp
+ */
+export const escapeRegex = (value: string): string => {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+/**
+ * Validate an absolute http(s) URL without control characters
+ */
+export const isValidHttpUrl = (value: string): boolean => {
+  // eslint-disable-next-line no-control-regex
+  if (/[\u0000-\u001f\u007f]/.test(value)) return false;
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check that a value is an array of strings
+ */
+export const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+};
@@ -0,0 +1,88 @@
+import { isValidHttpUrl } from '@utils/validation';
+
+export interface VCardData {
+  fullName: string;
+  nickname?: string;
+  title?: string;
+  organization?: string;
+  email?: string;
+  phone?: string;
+  note?: string;
+  url?: string;
+  photo?: string;
+  categories?: string[];
+}
+
+// Control characters other than line breaks, which escapeValue turns into \n
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARS = /[\u0000-\u0009\u000b\u000c\u000e-\u001f\u007f]/g;
+
+/**
+ * Escape a property value (RFC 6350 section 3.4)
+ */
+const escapeValue = (value: string): string =>
+  value
+    .replace(CONTROL_CHARS, '')
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+/**
+ * A URI value, or undefined unless it is an http(s) URL.
+ * URIs are not escaped, so a line break would start a new property.
+ */
+const toHttpUri = (value: string): string | undefined =>
+  isValidHttpUrl(value) ? new URL(value).href : undefined;
+
+/**
+ * Fold content lines longer than 75 octets (RFC 6350 section 3.2)
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Build a vCard 4.0 document
+ */
+export const toVCard = (data: VCardData): string => {
+  const lines = ['BEGIN:VCARD', 'VERSION:4.0', `FN:${escapeValue(data.fullName)}`];
+
+  if (data.nickname) lines.push(`NICKNAME:${escapeValue(data.nickname)}`);
+  if (data.title) lines.push(`TITLE:${escapeValue(data.title)}`);
+  if (data.organization) lines.push(`ORG:${escapeValue(data.organization)}`);
+  if (data.email) lines.push(`EMAIL:${escapeValue(data.email)}`);
+  if (data.phone) lines.push(`TEL;VALUE=uri:tel:${data.phone.replace(/[^\d+]/g, '')}`);
+  if (data.note) lines.push(`NOTE:${escapeValue(data.note)}`);
+  const url = data.url && toHttpUri(data.url);
+  const photo = data.photo && toHttpUri(data.photo);
+  if (url) lines.push(`URL:${url}`);
+  if (photo) lines.push(`PHOTO:${photo}`);
+  if (data.categories && data.categories.length > 0) {
+    lines.push(`CATEGORIES:${data.categories.map(escapeValue).join(',')}`);
+  }
+
+  lines.push('END:VCARD');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};